@@ -0,0 +1,169 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { EmailConfig, ProductTemplate } from '../types';
+import { formatIssues, parseConfigDocument, validateEmailConfig } from '../utils/configValidation';
+import { generateEmailHTML } from '../utils/emailGenerator';
+import { generatePlainText } from '../utils/plainText';
+import { defaultEmlOptions, generateEml } from '../utils/emlExport';
+import { MISSING_UNSUBSCRIBE, hasUnsubscribe } from '../utils/compliance';
+import { applyExportProfile, checkAssetHosts, findExportProfile } from '../utils/exportProfiles';
+
+// Renders EmailConfig JSON files (exported from the editor) to .html files.
+//
+//   npm run render -- campaigns/summer.json campaigns/winter.json --out-dir build/emails
+//   npm run render -- summer.json --template banner --width 640 --text
+//   npm run render -- summer.json --profile production
+
+const EXIT_INVALID_INPUT = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: render <config.json...> [options]
+
+Options:
+  -o, --out-dir <dir>     Directory for the .html files (default: next to each input)
+  -t, --template <name>   Override every product section's template: classic, modern or banner
+  -w, --width <px>        Override layout.contentWidth
+  -p, --profile <name>    Apply one of the config's export profiles (host rewrites, cache busting)
+                          and refuse inputs with images outside its allowed hosts
+      --text              Also write the plain-text alternative as a .txt file
+      --eml               Also write a complete .eml message (subject from config.subject)
+      --embed-images      With --eml, download images and attach them inline (CID)
+      --allow-no-unsubscribe
+                          Render inputs that have no footer unsubscribe link (refused by default)
+  -h, --help              Show this message
+
+Exit codes: 0 all rendered, 1 at least one input was invalid, had no unsubscribe link or failed its profile, 2 bad arguments.`;
+
+const fail = (message: string, code: number): never => {
+  console.error(message);
+  process.exit(code);
+};
+
+const readArgs = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        'out-dir': { type: 'string', short: 'o' },
+        template: { type: 'string', short: 't' },
+        width: { type: 'string', short: 'w' },
+        profile: { type: 'string', short: 'p' },
+        text: { type: 'boolean' },
+        eml: { type: 'boolean' },
+        'embed-images': { type: 'boolean' },
+        'allow-no-unsubscribe': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    return fail(`${(err as Error).message}\n\n${USAGE}`, EXIT_USAGE);
+  }
+};
+
+// --template applies to every product section
+const applyOverrides = (config: EmailConfig, template?: string, width?: string): EmailConfig => ({
+  ...config,
+  sections: config.sections.map((section) => (section.type === 'products' && template !== undefined
+    ? { ...section, template: template as ProductTemplate }
+    : section)),
+  layout: {
+    ...config.layout,
+    contentWidth: width === undefined ? config.layout.contentWidth : Number(width),
+  },
+});
+
+type RenderOptions = {
+  outDir?: string;
+  template?: string;
+  width?: string;
+  profile?: string;
+  text?: boolean;
+  eml?: boolean;
+  embedImages?: boolean;
+  allowNoUnsubscribe?: boolean;
+};
+
+const renderFile = async (inputPath: string, { outDir, template, width, profile, text, eml, embedImages, allowNoUnsubscribe }: RenderOptions) => {
+  let source: string;
+  try {
+    source = await readFile(inputPath, 'utf8');
+  } catch (err) {
+    console.error(`✗ ${inputPath}: ${(err as Error).message}`);
+    return false;
+  }
+
+  const parsed = parseConfigDocument(source, path.basename(inputPath, '.json'));
+  if (parsed.issues.length > 0) {
+    console.error(`✗ ${inputPath}\n${formatIssues(parsed.issues).replace(/^/gm, '    ')}`);
+    return false;
+  }
+
+  // Overrides are re-validated so a bad --template or --width reads like any other config error
+  const overridden = validateEmailConfig(applyOverrides(parsed.config, template, width));
+  if (overridden.issues.length > 0) {
+    console.error(`✗ ${inputPath} (with overrides)\n${formatIssues(overridden.issues).replace(/^/gm, '    ')}`);
+    return false;
+  }
+  if (!allowNoUnsubscribe && !hasUnsubscribe(overridden.config)) {
+    console.error(`✗ ${inputPath}: ${MISSING_UNSUBSCRIBE} Pass --allow-no-unsubscribe to render it anyway.`);
+    return false;
+  }
+
+  let config = overridden.config;
+  if (profile !== undefined) {
+    const exportProfile = findExportProfile(config, profile);
+    if (!exportProfile) {
+      const known = config.exportProfiles.map((p) => `"${p.name}"`).join(', ') || 'none';
+      console.error(`✗ ${inputPath}: no export profile "${profile}" (profiles: ${known})`);
+      return false;
+    }
+    const hostIssues = checkAssetHosts(config, exportProfile);
+    if (hostIssues.length > 0) {
+      console.error(`✗ ${inputPath}: images outside the "${exportProfile.name}" profile's allowed hosts\n${formatIssues(hostIssues).replace(/^/gm, '    ')}`);
+      return false;
+    }
+    config = applyExportProfile(config, exportProfile);
+  }
+
+  const outputBase = path.join(outDir ?? path.dirname(inputPath), path.basename(inputPath, path.extname(inputPath)));
+  await mkdir(path.dirname(outputBase), { recursive: true });
+  await writeFile(`${outputBase}.html`, generateEmailHTML(config), 'utf8');
+  if (text) await writeFile(`${outputBase}.txt`, generatePlainText(config), 'utf8');
+  if (eml) {
+    const options = { ...defaultEmlOptions(config), embedImages: Boolean(embedImages) };
+    const message = await generateEml(config, options);
+    message.failures.forEach((failure) => console.warn(`  ! kept remote image ${failure}`));
+    await writeFile(`${outputBase}.eml`, message.eml, 'utf8');
+  }
+  const extras = [text && '.txt', eml && '.eml'].filter(Boolean).join(', ');
+  console.log(`✓ ${inputPath} → ${outputBase}.html${extras ? ` (+ ${extras})` : ''}`);
+  return true;
+};
+
+const main = async () => {
+  const { values, positionals } = readArgs();
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length === 0) fail(`No input files given.\n\n${USAGE}`, EXIT_USAGE);
+
+  let allRendered = true;
+  for (const inputPath of positionals) {
+    const rendered = await renderFile(inputPath, {
+      outDir: values['out-dir'],
+      template: values.template,
+      width: values.width,
+      profile: values.profile,
+      text: values.text,
+      eml: values.eml,
+      embedImages: values['embed-images'],
+      allowNoUnsubscribe: values['allow-no-unsubscribe'],
+    });
+    allRendered = allRendered && rendered;
+  }
+  if (!allRendered) process.exitCode = EXIT_INVALID_INPUT;
+};
+
+main().catch((err) => fail(`Unexpected error: ${err?.stack ?? err}`, EXIT_INVALID_INPUT));
@@ -0,0 +1,65 @@
+import React from 'react';
+import { EmailConfig } from '../types';
+import { LintLocation } from '../utils/compatLint';
+import { AccessibilityIssue } from '../utils/accessibilityAudit';
+import { describeLocation } from './CompatibilityPanel';
+
+type AccessibilityPanelProps = {
+  config: EmailConfig;
+  issues: AccessibilityIssue[];
+  onSelectLocation: (location: LintLocation) => void;
+  onClose: () => void;
+};
+
+export const AccessibilityPanel = ({ config, issues, onSelectLocation, onClose }: AccessibilityPanelProps) => {
+  // Group findings by where they came from, in document order
+  const groups: { key: string; location: LintLocation; items: AccessibilityIssue[] }[] = [];
+  issues.forEach((issue) => {
+    const key = `${issue.location.sectionIndex ?? ''}|${issue.location.productIndex ?? ''}`;
+    const group = groups.find((g) => g.key === key);
+    if (group) group.items.push(issue);
+    else groups.push({ key, location: issue.location, items: [issue] });
+  });
+
+  return (
+    <div className="w-80 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <div className="p-3 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Accessibility</h3>
+          <p className="text-[10px] text-gray-500">Alt text, contrast, font sizes and link names</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+        {groups.length === 0 && (
+          <div className="text-center py-8 text-green-700 text-sm">No accessibility issues found.</div>
+        )}
+        {groups.map((group) => (
+          <div key={group.key} className="space-y-2">
+            <button
+              onClick={() => onSelectLocation(group.location)}
+              className="text-xs font-semibold text-gray-700 uppercase tracking-wider hover:text-blue-600"
+              title="Show in editor"
+            >
+              {describeLocation(config, group.location)}
+            </button>
+            {group.items.map((issue) => (
+              <div key={`${issue.ruleId}|${issue.message}`} className="border border-gray-200 rounded p-2 text-xs space-y-1">
+                <div className="flex justify-between items-start gap-2">
+                  <span
+                    className={`px-1.5 py-0.5 rounded text-[10px] ${issue.severity === 'error' ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-yellow-50 text-yellow-800 border border-yellow-200'}`}
+                  >
+                    {issue.severity === 'error' ? 'Error' : 'Warning'}
+                  </span>
+                  {issue.occurrences > 1 && <span className="text-[10px] text-gray-400">×{issue.occurrences}</span>}
+                </div>
+                <p className="text-gray-600">{issue.message}</p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { EmailConfig, SectionType } from '../types';
+import { CompatWarning, EMAIL_CLIENTS, LintLocation } from '../utils/compatLint';
+import { sectionLabel } from '../utils/sections';
+
+type CompatibilityPanelProps = {
+  config: EmailConfig;
+  warnings: CompatWarning[];
+  onSelectLocation: (location: LintLocation) => void;
+  onClose: () => void;
+};
+
+export const describeLocation = (config: EmailConfig, location: LintLocation) => {
+  if (location.sectionIndex === undefined) return location.section === 'document' ? 'Document' : sectionLabel(location.section as SectionType);
+  const section = config.sections[location.sectionIndex];
+  const label = `${location.sectionIndex + 1}. ${sectionLabel(location.section as SectionType)}`;
+  if (location.productIndex === undefined || section?.type !== 'products') return label;
+  const product = section.products[location.productIndex];
+  return `${label} › Product ${location.productIndex + 1}${product?.name ? `: ${product.name}` : ''}`;
+};
+
+const clientLabel = (id: string) => EMAIL_CLIENTS.find((c) => c.id === id)?.label ?? id;
+
+export const CompatibilityPanel = ({ config, warnings, onSelectLocation, onClose }: CompatibilityPanelProps) => {
+  // Group findings by where they came from, in document order
+  const groups: { key: string; location: LintLocation; items: CompatWarning[] }[] = [];
+  warnings.forEach((warning) => {
+    const key = `${warning.location.sectionIndex ?? ''}|${warning.location.productIndex ?? ''}`;
+    const group = groups.find((g) => g.key === key);
+    if (group) group.items.push(warning);
+    else groups.push({ key, location: warning.location, items: [warning] });
+  });
+
+  return (
+    <div className="w-80 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <div className="p-3 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Client Compatibility</h3>
+          <p className="text-[10px] text-gray-500">{EMAIL_CLIENTS.map((c) => c.label).join(' · ')}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+        {groups.length === 0 && (
+          <div className="text-center py-8 text-green-700 text-sm">No compatibility issues found.</div>
+        )}
+        {groups.map((group) => (
+          <div key={group.key} className="space-y-2">
+            <button
+              onClick={() => onSelectLocation(group.location)}
+              className="text-xs font-semibold text-gray-700 uppercase tracking-wider hover:text-blue-600"
+              title="Show in editor"
+            >
+              {describeLocation(config, group.location)}
+            </button>
+            {group.items.map((warning) => (
+              <div key={warning.ruleId} className="border border-gray-200 rounded p-2 text-xs space-y-1">
+                <div className="flex justify-between items-start gap-2">
+                  <code className="font-mono font-semibold text-gray-800">{warning.feature}</code>
+                  {warning.occurrences > 1 && <span className="text-[10px] text-gray-400">×{warning.occurrences}</span>}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {warning.affected.map(({ client, support }) => (
+                    <span
+                      key={client}
+                      className={`px-1.5 py-0.5 rounded text-[10px] ${support === 'no' ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-yellow-50 text-yellow-800 border border-yellow-200'}`}
+                    >
+                      {clientLabel(client)}{support === 'partial' ? ' (partial)' : ''}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-gray-600">{warning.advice}</p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
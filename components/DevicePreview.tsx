@@ -0,0 +1,37 @@
+import React from 'react';
+import { PREVIEW_DEVICES, PreviewDevice } from '../utils/previewTransforms';
+
+type DevicePreviewProps = {
+  html: string;
+  devices: PreviewDevice[];
+};
+
+// Phones and tablets get a bezel; desktop gets a window title bar
+export const DevicePreview = ({ html, devices }: DevicePreviewProps) => (
+  <div className="flex items-start gap-8">
+    {PREVIEW_DEVICES.filter(({ id }) => devices.includes(id)).map(({ id, label, width }) => (
+      <div key={id} className="flex-shrink-0">
+        <div className="text-xs text-gray-500 text-center mb-2">{label} · {width}px</div>
+        <div
+          className={id === 'desktop'
+            ? 'bg-white shadow-xl rounded-md overflow-hidden border border-gray-300'
+            : 'bg-white shadow-xl rounded-[2rem] overflow-hidden border-[10px] border-gray-800'}
+        >
+          {id === 'desktop' && (
+            <div className="flex gap-1.5 px-3 py-2 bg-gray-100 border-b border-gray-300">
+              <span className="w-2.5 h-2.5 rounded-full bg-gray-300" />
+              <span className="w-2.5 h-2.5 rounded-full bg-gray-300" />
+              <span className="w-2.5 h-2.5 rounded-full bg-gray-300" />
+            </div>
+          )}
+          <iframe
+            srcDoc={html}
+            title={`${label} Preview`}
+            sandbox="allow-same-origin"
+            style={{ border: 'none', display: 'block', width: `${width}px`, height: id === 'mobile' ? '720px' : '800px' }}
+          />
+        </div>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { EmailConfig } from '../types';
+import { EmlOptions, defaultEmlOptions, generateEml } from '../utils/emlExport';
+import { supportsOneClick } from '../utils/compliance';
+import { downloadFile } from '../utils/download';
+
+type EmlExportDialogProps = {
+  config: EmailConfig;
+  fileSlug: string;
+  onClose: () => void;
+};
+
+export const EmlExportDialog = ({ config, fileSlug, onClose }: EmlExportDialogProps) => {
+  const [options, setOptions] = useState<EmlOptions>(() => defaultEmlOptions(config));
+  const [busy, setBusy] = useState(false);
+  const [failures, setFailures] = useState<string[]>([]);
+
+  const update = <K extends keyof EmlOptions>(key: K, value: EmlOptions[K]) => setOptions({ ...options, [key]: value });
+
+  const exportEml = async () => {
+    setBusy(true);
+    try {
+      const result = await generateEml(config, options);
+      downloadFile(`${fileSlug}.eml`, result.eml, 'message/rfc822');
+      setFailures(result.failures);
+      if (result.failures.length === 0) onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const field = (label: string, key: 'subject' | 'fromName' | 'fromAddress' | 'to', placeholder = '') => (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={options[key]}
+        onChange={(e) => update(key, e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Export .eml</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {field('Subject', 'subject')}
+          <div className="grid grid-cols-2 gap-2">
+            {field('From Name', 'fromName')}
+            {field('From Address', 'fromAddress', 'news@example.com')}
+          </div>
+          {field('To (Optional)', 'to', 'test@example.com')}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">List-Unsubscribe Header</label>
+            <input
+              type="text"
+              value={options.listUnsubscribe}
+              onChange={(e) => update('listUnsubscribe', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+              placeholder="<https://example.com/unsubscribe>, <mailto:unsubscribe@example.com>"
+            />
+            <p className="text-[10px] text-gray-500 mt-1">
+              {options.listUnsubscribe.trim()
+                ? 'Filled from the footer unsubscribe link. Add a mailto: address as a fallback if you have one.'
+                : 'Left out. The footer has no literal https/mailto unsubscribe link (merge tags are left to your ESP).'}
+            </p>
+          </div>
+          <label className="flex items-start gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.oneClickUnsubscribe}
+              onChange={(e) => update('oneClickUnsubscribe', e.target.checked)}
+              disabled={!supportsOneClick(options.listUnsubscribe)}
+              className="mt-0.5"
+            />
+            <span>
+              One-click unsubscribe (List-Unsubscribe-Post)
+              <span className="block text-gray-500">Only when the https URL accepts an RFC 8058 POST. Gmail and Yahoo expect it from bulk senders.</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.embedImages}
+              onChange={(e) => update('embedImages', e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Embed images as inline attachments (CID)
+              <span className="block text-gray-500">Images must allow cross-origin downloads; any that don't stay as remote URLs.</span>
+            </span>
+          </label>
+
+          {failures.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-xs text-yellow-800">
+              <strong>Exported, but {failures.length} {failures.length === 1 ? 'image' : 'images'} could not be embedded:</strong>
+              <ul className="mt-1 space-y-0.5 break-all">
+                {failures.map((failure) => <li key={failure}>{failure}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+          >
+            {failures.length > 0 ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            onClick={exportEml}
+            disabled={busy || !options.fromAddress.includes('@')}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Preparing…' : 'Download .eml'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React from 'react';
+import { EmailConfig, ExportProfile, HostRewrite } from '../types';
+import { newExportProfile } from '../utils/exportProfiles';
+import { IconPlus, IconTrash } from './Icons';
+
+type ExportProfilesEditorProps = {
+  config: EmailConfig;
+  onChange: (config: EmailConfig) => void;
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+export const ExportProfilesEditor = ({ config, onChange }: ExportProfilesEditorProps) => {
+  const profiles = config.exportProfiles;
+  const setProfiles = (next: ExportProfile[]) => onChange({ ...config, exportProfiles: next });
+  const updateProfile = (index: number, changes: Partial<ExportProfile>) =>
+    setProfiles(profiles.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+  const removeProfile = (index: number) => {
+    if (!confirm(`Remove the "${profiles[index].name}" export profile?`)) return;
+    setProfiles(profiles.filter((_, i) => i !== index));
+  };
+
+  const rewriteFields = (index: number, profile: ExportProfile) => {
+    const setRewrites = (next: HostRewrite[]) => updateProfile(index, { hostRewrites: next });
+    const updateRewrite = (rewriteIndex: number, changes: Partial<HostRewrite>) =>
+      setRewrites(profile.hostRewrites.map((r, i) => (i === rewriteIndex ? { ...r, ...changes } : r)));
+    return (
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Host Rewrites</label>
+        <div className="space-y-2">
+          {profile.hostRewrites.map((rewrite, rewriteIndex) => (
+            <div key={rewriteIndex} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={rewrite.from}
+                onChange={(e) => updateRewrite(rewriteIndex, { from: e.target.value })}
+                className={`${inputClass} font-mono text-xs`}
+                placeholder="staging-cdn.example.com"
+              />
+              <span className="text-gray-400 text-xs">→</span>
+              <input
+                type="text"
+                value={rewrite.to}
+                onChange={(e) => updateRewrite(rewriteIndex, { to: e.target.value })}
+                className={`${inputClass} font-mono text-xs`}
+                placeholder="cdn.example.com"
+              />
+              <button
+                onClick={() => setRewrites(profile.hostRewrites.filter((_, i) => i !== rewriteIndex))}
+                className="p-1 text-gray-400 hover:text-red-500"
+                title="Remove rewrite"
+              >
+                <IconTrash />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setRewrites([...profile.hostRewrites, { from: '', to: '' }])}
+          className="mt-2 text-xs text-blue-600 hover:underline"
+        >
+          + Add rewrite
+        </button>
+        <p className="text-[10px] text-gray-500 mt-1">Applies to image and link URLs, before link tracking.</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Export Profiles</h3>
+        <p className="text-[10px] text-gray-500 mt-1">
+          Pick a profile next to the export buttons to publish with production hosts. The preview keeps the URLs as entered.
+        </p>
+      </div>
+
+      {profiles.map((profile, index) => (
+        <div key={profile.id} className="border border-gray-200 rounded-md p-3 space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Profile Name</label>
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile(index, { name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <button onClick={() => removeProfile(index)} className="p-2 text-gray-400 hover:text-red-500" title="Remove profile">
+              <IconTrash />
+            </button>
+          </div>
+
+          {rewriteFields(index, profile)}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Cache-Busting Parameter (Optional)</label>
+            <input
+              type="text"
+              value={profile.cacheBust}
+              onChange={(e) => updateProfile(index, { cacheBust: e.target.value })}
+              className={`${inputClass} font-mono`}
+              placeholder="v=2024-06"
+            />
+            <p className="text-[10px] text-gray-500 mt-1">Added to every image URL that doesn't already set it.</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Allowed Image Hosts (One per Line)</label>
+            <textarea
+              value={profile.allowedAssetHosts.join('\n')}
+              onChange={(e) => updateProfile(index, { allowedAssetHosts: e.target.value.split('\n') })}
+              className={`${inputClass} font-mono`}
+              rows={2}
+              placeholder={'cdn.example.com\n*.images.example.com'}
+            />
+            <p className="text-[10px] text-gray-500 mt-1">
+              {profile.allowedAssetHosts.some((host) => host.trim())
+                ? 'Exports are refused while any image, after rewriting, lives elsewhere.'
+                : 'Empty: images are not checked.'}
+            </p>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => setProfiles([...profiles, newExportProfile(profiles.length === 0 ? 'Production' : `Profile ${profiles.length + 1}`)])}
+        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <IconPlus /> Add Profile
+      </button>
+    </div>
+  );
+};
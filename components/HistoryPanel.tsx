@@ -0,0 +1,42 @@
+import React from 'react';
+import { ConfigHistory } from '../utils/history';
+
+type HistoryPanelProps = {
+  history: ConfigHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: 'medium' });
+
+export const HistoryPanel = ({ history, onJump, onClose }: HistoryPanelProps) => (
+  <div className="w-80 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+    <div className="p-3 border-b border-gray-200 flex justify-between items-center">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">History</h3>
+        <p className="text-[10px] text-gray-500">Ctrl/⌘+Z to undo · Shift+Ctrl/⌘+Z to redo</p>
+      </div>
+      <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+    </div>
+
+    {/* Newest first; steps after the current one can still be redone */}
+    <ol className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-1">
+      {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+        <li key={`${index}-${entry.at}`}>
+          <button
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-2 py-1.5 rounded text-xs border ${index === history.index
+              ? 'bg-blue-50 border-blue-200 text-blue-800 font-semibold'
+              : index > history.index
+                ? 'border-transparent text-gray-400 italic hover:bg-gray-50'
+                : 'border-transparent text-gray-700 hover:bg-gray-50'}`}
+          >
+            <span className="block truncate">{entry.label}</span>
+            <span className="block text-[10px] font-normal text-gray-400">{formatTime(entry.at)}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
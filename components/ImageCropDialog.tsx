@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageRequirement, formatBytes } from '../utils/imageProbe';
+import { CropRect, centeredCrop, loadImageFile, outputSize, renderCrop } from '../utils/imageProcessing';
+
+type ImageCropDialogProps = {
+  file: File;
+  requirement: ImageRequirement;
+  onCrop: (dataUrl: string) => void;
+  onClose: () => void;
+};
+
+// The image is shown scaled into this box; the crop itself is kept in source pixels
+const STAGE_WIDTH = 480;
+const STAGE_HEIGHT = 360;
+const MIN_CROP = 16;
+
+type Drag = { mode: 'move' | 'resize'; pointerX: number; pointerY: number; start: CropRect };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const ImageCropDialog = ({ file, requirement, onCrop, onClose }: ImageCropDialogProps) => {
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [error, setError] = useState('');
+  const drag = useRef<Drag | null>(null);
+  const { aspect } = requirement;
+
+  useEffect(() => {
+    let current = true;
+    loadImageFile(file).then(
+      (loaded) => {
+        if (!current) return;
+        setImg(loaded);
+        setCrop(centeredCrop(loaded.naturalWidth, loaded.naturalHeight, aspect));
+      },
+      (err) => current && setError((err as Error).message),
+    );
+    return () => {
+      current = false;
+    };
+  }, [file, aspect]);
+
+  const scale = img ? Math.min(1, STAGE_WIDTH / img.naturalWidth, STAGE_HEIGHT / img.naturalHeight) : 1;
+
+  const startDrag = (mode: Drag['mode']) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { mode, pointerX: e.clientX, pointerY: e.clientY, start: crop };
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag.current || !img) return;
+    const { mode, pointerX, pointerY, start } = drag.current;
+    const dx = (e.clientX - pointerX) / scale;
+    const dy = (e.clientY - pointerY) / scale;
+    const maxWidth = img.naturalWidth - start.x;
+    const maxHeight = img.naturalHeight - start.y;
+
+    if (mode === 'move') {
+      setCrop({
+        ...start,
+        x: clamp(start.x + dx, 0, img.naturalWidth - start.width),
+        y: clamp(start.y + dy, 0, img.naturalHeight - start.height),
+      });
+    } else if (aspect) {
+      // Resize along the width and let the height follow the locked ratio
+      let width = clamp(start.width + dx, MIN_CROP, maxWidth);
+      if (width / aspect > maxHeight) width = maxHeight * aspect;
+      setCrop({ ...start, width, height: width / aspect });
+    } else {
+      setCrop({ ...start, width: clamp(start.width + dx, MIN_CROP, maxWidth), height: clamp(start.height + dy, MIN_CROP, maxHeight) });
+    }
+  };
+
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  const apply = () => {
+    if (!img || !crop) return;
+    try {
+      onCrop(renderCrop(img, crop, requirement, file.type));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const size = crop ? outputSize(crop, requirement) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Crop Image</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {error && <div className="bg-red-50 border border-red-200 rounded p-2 text-xs text-red-700">{error}</div>}
+          {img && crop && (
+            <>
+              <div className="flex justify-center bg-gray-100 rounded p-2">
+                <div
+                  className="relative select-none touch-none"
+                  style={{ width: img.naturalWidth * scale, height: img.naturalHeight * scale }}
+                  onPointerMove={moveDrag}
+                  onPointerUp={endDrag}
+                  onPointerCancel={endDrag}
+                >
+                  <img src={img.src} alt="" draggable={false} className="w-full h-full block" />
+                  <div
+                    className="absolute border-2 border-white cursor-move"
+                    style={{
+                      left: crop.x * scale,
+                      top: crop.y * scale,
+                      width: crop.width * scale,
+                      height: crop.height * scale,
+                      boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                    }}
+                    onPointerDown={startDrag('move')}
+                  >
+                    <div
+                      className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border border-gray-500 cursor-se-resize"
+                      onPointerDown={startDrag('resize')}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="text-xs text-gray-600 space-y-0.5">
+                <p>
+                  {aspect ? 'Drag to position; the corner resizes at the ratio this slot uses.' : 'Drag to position; the corner resizes.'}
+                </p>
+                {size && (
+                  <p>
+                    Saved at {size.width} × {size.height} px
+                    {size.width < crop.width ? ' (2× the display size for retina screens)' : ' (the crop is smaller than 2× the display size, so it is kept as is)'}
+                  </p>
+                )}
+                {file.type === 'image/gif' && <p className="text-yellow-700">Animated GIFs keep only their first frame.</p>}
+                <p className="text-gray-400">Original: {img.naturalWidth} × {img.naturalHeight} px · {formatBytes(file.size)}</p>
+                <p className="text-gray-400">Saved inside the project; the .zip export writes it out as a file in images/.</p>
+              </div>
+            </>
+          )}
+          {!img && !error && <p className="text-sm text-gray-500">Loading…</p>}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            disabled={!img || !crop}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use Image
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { ImageProbe, ImageRequirement, checkImage, formatBytes, isProbeable, probeImage } from '../utils/imageProbe';
+
+type ImageStatusProps = {
+  url: string;
+  requirement: ImageRequirement;
+};
+
+// Waits for typing to pause before downloading anything
+const PROBE_DELAY_MS = 400;
+
+export const ImageStatus = ({ url, requirement }: ImageStatusProps) => {
+  const [probe, setProbe] = useState<ImageProbe | null>(null);
+
+  useEffect(() => {
+    const trimmed = url.trim();
+    if (!isProbeable(trimmed)) {
+      setProbe(null);
+      return;
+    }
+    let current = true;
+    setProbe({ status: 'loading' });
+    const timer = setTimeout(() => {
+      probeImage(trimmed).then((result) => current && setProbe(result));
+    }, PROBE_DELAY_MS);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [url]);
+
+  if (!probe) return null;
+  if (probe.status === 'loading') return <p className="text-[10px] text-gray-400 mt-1">Checking image…</p>;
+
+  const checks = checkImage(probe, requirement);
+  return (
+    <div className="mt-1 space-y-0.5 text-[10px]">
+      {probe.status === 'loaded' && (
+        <p className={checks.length === 0 ? 'text-green-700' : 'text-gray-500'}>
+          {checks.length === 0 ? '✓ ' : ''}{probe.width} × {probe.height} px{probe.bytes !== null ? ` · ${formatBytes(probe.bytes)}` : ''}
+        </p>
+      )}
+      {checks.map((check) => (
+        <p key={check.message} className={check.level === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+          {check.level === 'error' ? '✗' : '⚠'} {check.message}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { ImageRequirement } from '../utils/imageProbe';
+import { ACCEPTED_IMAGE_TYPES } from '../utils/imageProcessing';
+import { ImageCropDialog } from './ImageCropDialog';
+
+type ImageUploadProps = {
+  requirement: ImageRequirement;
+  onImage: (dataUrl: string) => void;
+  children: React.ReactNode; // the URL field; dropping a file onto it uploads too
+};
+
+export const ImageUpload = ({ requirement, onImage, children }: ImageUploadProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const pick = (picked: File | undefined) => {
+    if (!picked) return;
+    if (!ACCEPTED_IMAGE_TYPES.includes(picked.type)) {
+      setError(`${picked.name} isn't a PNG, JPEG, GIF or WebP image`);
+      return;
+    }
+    setError('');
+    setFile(picked);
+  };
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  return (
+    <div
+      className={`rounded ${dragging ? 'ring-2 ring-blue-400 ring-offset-2' : ''}`}
+      onDragOver={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(false);
+        pick(e.dataTransfer.files[0]);
+      }}
+    >
+      {children}
+      <div className="flex items-center gap-1 mt-1 text-[10px] text-gray-500">
+        <button type="button" onClick={() => inputRef.current?.click()} className="text-blue-600 hover:underline">
+          Upload file…
+        </button>
+        <span>or drop one here</span>
+      </div>
+      {error && <p className="text-[10px] text-red-600 mt-1">{error}</p>}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          pick(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {file && (
+        <ImageCropDialog
+          file={file}
+          requirement={requirement}
+          onCrop={(dataUrl) => {
+            onImage(dataUrl);
+            setFile(null);
+          }}
+          onClose={() => setFile(null)}
+        />
+      )}
+    </div>
+  );
+};
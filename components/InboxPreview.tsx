@@ -0,0 +1,73 @@
+import React from 'react';
+import { EmailConfig } from '../types';
+import { getEmailTitle } from '../utils/sections';
+import { applySampleValues } from '../utils/mergeTags';
+import { bodyPreviewText, inboxRow } from '../utils/inboxPreview';
+
+type InboxPreviewProps = {
+  config: EmailConfig;
+  bodyText: string; // plain-text alternative, as previewed
+  showSamples: boolean;
+};
+
+// Greyed neighbours so the campaign row reads like part of a real inbox
+const placeholderRow = (key: string, width: string) => (
+  <div key={key} className="flex items-center gap-3 px-4 py-2.5 border-b border-gray-100">
+    <div className="w-32 h-2.5 rounded bg-gray-200" />
+    <div className="h-2.5 rounded bg-gray-100" style={{ width }} />
+  </div>
+);
+
+export const InboxPreview = ({ config, bodyText, showSamples }: InboxPreviewProps) => {
+  const sample = (value: string) => (showSamples ? applySampleValues(value, config.mergeTags, 'text') : value);
+  const sender = config.company.name;
+  const subject = sample(getEmailTitle(config));
+  const hasPreheader = config.preheader.trim() !== '';
+  const preheader = hasPreheader ? sample(config.preheader) : bodyPreviewText(bodyText);
+  const desktop = inboxRow('desktop', sender, subject, preheader);
+  const mobile = inboxRow('mobile', sender, subject, preheader);
+  const preheaderClass = hasPreheader ? 'text-gray-500' : 'text-red-400 italic';
+
+  return (
+    <div className="p-6 space-y-8">
+      {!hasPreheader && (
+        <p className="text-xs text-red-600">No preheader set: clients fall back to the first text in the body (shown in red).</p>
+      )}
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Desktop</h4>
+        <div className="border border-gray-200 rounded-md overflow-hidden text-sm">
+          {placeholderRow('above', '60%')}
+          <div className="flex items-center gap-3 px-4 py-2.5 border-b border-gray-100 bg-blue-50/40 whitespace-nowrap overflow-hidden">
+            <span className="w-32 flex-shrink-0 font-bold text-gray-900">{desktop.sender}</span>
+            <span className="min-w-0 overflow-hidden">
+              <span className="font-bold text-gray-900">{desktop.subject}</span>
+              {desktop.preheader && <span className={preheaderClass}> - {desktop.preheader}</span>}
+            </span>
+            <span className="ml-auto flex-shrink-0 text-xs font-bold text-gray-900">9:41 AM</span>
+          </div>
+          {placeholderRow('below', '45%')}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Mobile</h4>
+        <div className="w-[320px] border border-gray-200 rounded-2xl overflow-hidden text-sm">
+          <div className="px-4 py-3 border-b border-gray-100">
+            <div className="flex items-baseline gap-2">
+              <span className="flex-1 font-semibold text-gray-900 truncate">{mobile.sender}</span>
+              <span className="text-xs text-gray-400">9:41 AM</span>
+            </div>
+            <div className="text-gray-900">{mobile.subject}</div>
+            <div className={`text-xs leading-snug ${preheaderClass}`}>{mobile.preheader}</div>
+          </div>
+          {placeholderRow('below', '55%')}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Truncation is approximate; each client cuts at a slightly different width.
+      </p>
+    </div>
+  );
+};
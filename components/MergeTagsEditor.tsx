@@ -0,0 +1,84 @@
+import React from 'react';
+import { EmailConfig, MergeTagDialect, MergeTagSettings } from '../types';
+import { MERGE_TAG_DIALECTS, findMergeTags, isValidCustomDelimiter } from '../utils/mergeTags';
+
+type MergeTagsEditorProps = {
+  config: EmailConfig;
+  onChange: (config: EmailConfig) => void;
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+export const MergeTagsEditor = ({ config, onChange }: MergeTagsEditorProps) => {
+  const settings = config.mergeTags;
+  const update = (changes: Partial<MergeTagSettings>) => onChange({ ...config, mergeTags: { ...settings, ...changes } });
+  const dialect = MERGE_TAG_DIALECTS.find((d) => d.id === settings.dialect);
+  const tags = findMergeTags(config);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Merge Tags</h3>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">ESP Dialect</label>
+        <select
+          value={settings.dialect}
+          onChange={(e) => update({ dialect: e.target.value as MergeTagDialect })}
+          className={`${inputClass} bg-white`}
+        >
+          {MERGE_TAG_DIALECTS.map(({ id, label, example }) => (
+            <option key={id} value={id}>{label}{example ? ` (${example})` : ''}</option>
+          ))}
+        </select>
+        <p className="text-[10px] text-gray-500 mt-1">
+          {settings.dialect === 'none'
+            ? 'All text is escaped as typed.'
+            : 'Tags in any text, link or image field are kept as written so your ESP can fill them in.'}
+        </p>
+      </div>
+
+      {settings.dialect === 'custom' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Opening Delimiter</label>
+            <input type="text" value={settings.customOpen} onChange={(e) => update({ customOpen: e.target.value })} className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Closing Delimiter</label>
+            <input type="text" value={settings.customClose} onChange={(e) => update({ customClose: e.target.value })} className={`${inputClass} font-mono`} />
+          </div>
+          {!(isValidCustomDelimiter(settings.customOpen) && isValidCustomDelimiter(settings.customClose)) && (
+            <p className="col-span-2 text-[10px] text-red-600">
+              Use symbols only, without letters, digits, ":" or "&amp;". Until then tags are escaped like any other text.
+            </p>
+          )}
+        </div>
+      )}
+
+      {settings.dialect !== 'none' && (
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Preview Sample Values</label>
+          {tags.length === 0 ? (
+            <p className="text-xs text-gray-400 italic">
+              No {dialect?.label} tags found in the content yet{dialect?.example ? `, e.g. ${dialect.example}` : ''}.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {tags.map((tag) => (
+                <div key={tag} className="flex items-center gap-2">
+                  <code className="w-2/5 truncate text-xs font-mono text-gray-700" title={tag}>{tag}</code>
+                  <input
+                    type="text"
+                    value={settings.samples[tag] ?? ''}
+                    onChange={(e) => update({ samples: { ...settings.samples, [tag]: e.target.value } })}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs"
+                    placeholder="Sample value"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
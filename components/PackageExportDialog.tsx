@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { EmailConfig, ExportProfile } from '../types';
+import { IMAGES_FOLDER, PackageOptions, defaultPackageOptions, normalizeBaseUrl, packageEmail } from '../utils/packageExport';
+import { applyExportProfile, checkAssetHosts, checkPackageBaseUrl } from '../utils/exportProfiles';
+import { ValidationIssue, formatIssues } from '../utils/configValidation';
+import { downloadFile } from '../utils/download';
+
+type PackageExportDialogProps = {
+  config: EmailConfig; // as edited; the profile is applied here
+  profile?: ExportProfile;
+  fileSlug: string;
+  onClose: () => void;
+};
+
+export const PackageExportDialog = ({ config, profile, fileSlug, onClose }: PackageExportDialogProps) => {
+  const [options, setOptions] = useState<PackageOptions>(defaultPackageOptions);
+  const [busy, setBusy] = useState(false);
+  const [failures, setFailures] = useState<string[]>([]);
+  const [hostIssues, setHostIssues] = useState<ValidationIssue[]>([]);
+
+  const update = <K extends keyof PackageOptions>(key: K, value: PackageOptions[K]) => setOptions({ ...options, [key]: value });
+
+  const exportPackage = async () => {
+    setBusy(true);
+    try {
+      const result = await packageEmail(profile ? applyExportProfile(config, profile) : config, options);
+      // Images moved into the package are served from the base URL; anything still remote must be on the profile's hosts
+      const issues = profile ? [
+        ...checkAssetHosts(config, profile, (url) => result.packaged.includes(url)),
+        ...(result.packaged.length > 0 ? checkPackageBaseUrl(normalizeBaseUrl(options.assetBaseUrl), profile) : []),
+      ] : [];
+      setHostIssues(issues);
+      if (issues.length > 0) return;
+      downloadFile(`${fileSlug}.zip`, result.zip, 'application/zip');
+      setFailures(result.failures);
+      if (result.failures.length === 0) onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const examplePath = `${normalizeBaseUrl(options.assetBaseUrl)}${IMAGES_FOLDER}/image-1.jpg`;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Export .zip Package</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-gray-600">
+            index.html, plain-text.txt and an {IMAGES_FOLDER}/ folder holding every uploaded image at its retina size.
+          </p>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Asset Base URL (Optional)</label>
+            <input
+              type="text"
+              value={options.assetBaseUrl}
+              onChange={(e) => update('assetBaseUrl', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+              placeholder="https://cdn.example.com/campaigns/spring/"
+            />
+            <p className="text-[10px] text-gray-500 mt-1 break-all">
+              Images are linked as <span className="font-mono">{examplePath}</span>
+              {options.assetBaseUrl.trim() ? '. Upload the folder there before sending.' : ', relative to index.html. Fine for review; set a base URL before sending.'}
+            </p>
+          </div>
+          <label className="flex items-start gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.includeRemoteImages}
+              onChange={(e) => update('includeRemoteImages', e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Also package hosted images
+              <span className="block text-gray-500">Downloads image URLs into the folder too, so the whole email moves as one. Hosts must allow cross-origin downloads.</span>
+            </span>
+          </label>
+
+          {hostIssues.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded p-2 text-xs text-red-700">
+              <strong>Not exported: the "{profile?.name}" profile doesn't allow these images:</strong>
+              <pre className="mt-1 whitespace-pre-wrap break-all font-sans">{formatIssues(hostIssues)}</pre>
+            </div>
+          )}
+          {failures.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-xs text-yellow-800">
+              <strong>Exported, but {failures.length} {failures.length === 1 ? 'image' : 'images'} could not be packaged:</strong>
+              <ul className="mt-1 space-y-0.5 break-all">
+                {failures.map((failure) => <li key={failure}>{failure}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+          >
+            {failures.length > 0 ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            onClick={exportPackage}
+            disabled={busy}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Preparing…' : 'Download .zip'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
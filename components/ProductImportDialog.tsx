@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Product } from '../types';
+import {
+  ColumnMapping,
+  IMPORTABLE_FIELDS,
+  ImportableField,
+  convertRows,
+  defaultColumnMapping,
+  guessColumnMapping,
+  parseDelimited,
+} from '../utils/productImport';
+
+type ImportMode = 'append' | 'replace';
+
+type ProductImportDialogProps = {
+  existingCount: number;
+  onImport: (products: Product[], mode: ImportMode) => void;
+  onClose: () => void;
+};
+
+export const ProductImportDialog = ({ existingCount, onImport, onClose }: ProductImportDialogProps) => {
+  const [source, setSource] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [mode, setMode] = useState<ImportMode>('append');
+
+  const rows = useMemo(() => parseDelimited(source), [source]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = hasHeader && rows.length > 0
+    ? Array.from({ length: columnCount }, (_, i) => rows[0][i] || `Column ${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const sampleRow = rows[hasHeader ? 1 : 0] || [];
+
+  // Re-guess the mapping whenever a different sheet is loaded
+  useEffect(() => {
+    setMapping(hasHeader && rows.length > 0 ? guessColumnMapping(headers) : defaultColumnMapping(columnCount));
+  }, [rows, hasHeader]);
+
+  const { products, failures } = useMemo(
+    () => convertRows(rows, mapping, hasHeader),
+    [rows, mapping, hasHeader],
+  );
+
+  const loadFile = async (file: File) => setSource(await file.text());
+
+  const setColumnField = (column: number, field: ImportableField | null) => {
+    // A field can only come from one column, so unmap it elsewhere
+    setMapping(mapping.map((f, i) => (i === column ? field : f === field ? null : f)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Import Products</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" title="Close">&times;</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+          {/* 1. Source */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">1. Data</h3>
+            <div className="flex items-center gap-3">
+              <label className="text-xs font-medium text-blue-600 cursor-pointer hover:underline">
+                Upload CSV file
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <span className="text-xs text-gray-400">or paste cells copied from a spreadsheet below</span>
+            </div>
+            <textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+              rows={5}
+              placeholder={'Name\tPrice\tImage URL\tLink\nWireless Headphones\t$199.00\thttps://...\thttps://...'}
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              First row contains column names
+            </label>
+          </div>
+
+          {/* 2. Mapping */}
+          {columnCount > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">2. Map Columns</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {headers.map((header, column) => (
+                  <div key={column} className="flex items-center gap-2 bg-gray-50 p-2 rounded">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-medium text-gray-700 truncate">{header}</div>
+                      <div className="text-[10px] text-gray-400 truncate">{sampleRow[column] || '—'}</div>
+                    </div>
+                    <select
+                      value={mapping[column] || ''}
+                      onChange={(e) => setColumnField(column, (e.target.value || null) as ImportableField | null)}
+                      className="px-2 py-1 border border-gray-300 rounded text-xs bg-white"
+                    >
+                      <option value="">Ignore</option>
+                      {IMPORTABLE_FIELDS.map(({ field, label }) => (
+                        <option key={field} value={field}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 3. Preview */}
+          {columnCount > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">3. Review</h3>
+              <p className="text-xs text-gray-700">
+                <strong className="text-green-700">{products.length} ready</strong>
+                {failures.length > 0 && <>, <strong className="text-red-600">{failures.length} skipped</strong> (fix the sheet or mapping to include them)</>}
+              </p>
+              {failures.length > 0 && (
+                <div className="border border-red-200 rounded overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead className="bg-red-50 text-red-700">
+                      <tr>
+                        <th className="text-left p-2 w-12">Row</th>
+                        <th className="text-left p-2">Values</th>
+                        <th className="text-left p-2">Problems</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {failures.map((failure) => (
+                        <tr key={failure.rowNumber} className="border-t border-red-100 align-top">
+                          <td className="p-2 text-gray-500">{failure.rowNumber}</td>
+                          <td className="p-2 font-mono text-[10px] text-gray-600 break-all">{failure.cells.join(' | ')}</td>
+                          <td className="p-2 text-red-700">
+                            {failure.issues.map((issue, i) => (
+                              <div key={i}>{issue.path.replace(/^row \d+\.?/, '') || 'row'} {issue.message}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between items-center bg-gray-50 rounded-b-lg">
+          <div className="flex rounded shadow-sm">
+            <button
+              onClick={() => setMode('append')}
+              className={`px-3 py-1.5 text-xs border border-r-0 rounded-l ${mode === 'append' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              Append to {existingCount} existing
+            </button>
+            <button
+              onClick={() => setMode('replace')}
+              className={`px-3 py-1.5 text-xs border rounded-r ${mode === 'replace' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              Replace all
+            </button>
+          </div>
+          <button
+            onClick={() => onImport(products, mode)}
+            disabled={products.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {products.length} {products.length === 1 ? 'Product' : 'Products'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
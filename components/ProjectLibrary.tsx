@@ -0,0 +1,186 @@
+import React, { useRef } from 'react';
+import { SavedProject, UnreadableProject } from '../types';
+import { ValidationIssue } from '../utils/configValidation';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { getAllProducts } from '../utils/sections';
+import { IconDuplicate, IconPlus, IconTrash } from './Icons';
+
+type ProjectLibraryProps = {
+  projects: SavedProject[];
+  unreadableProjects: UnreadableProject[];
+  activeProjectId: string | null;
+  activeProjectName: string;
+  lastSavedAt: number | null;
+  saveError: string;
+  onRename: (name: string) => void;
+  onCreate: () => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExportJson: () => void;
+  onImportJson: (file: File) => void;
+  importIssues: ValidationIssue[];
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ProjectLibrary = ({
+  projects,
+  unreadableProjects,
+  activeProjectId,
+  activeProjectName,
+  lastSavedAt,
+  saveError,
+  onRename,
+  onCreate,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onExportJson,
+  onImportJson,
+  importIssues,
+}: ProjectLibraryProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+  <div className="space-y-6">
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Current Campaign</h3>
+      <input
+        type="text"
+        value={activeProjectName}
+        onChange={(e) => onRename(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-medium"
+      />
+      {saveError ? (
+        <p className="text-xs text-red-600">{saveError}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {lastSavedAt ? `Autosaved ${formatTime(lastSavedAt)}` : 'Changes are saved automatically.'}
+        </p>
+      )}
+    </div>
+
+    <div className="pt-6 border-t border-gray-200 space-y-4">
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">JSON</h3>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onExportJson}
+          className="py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+        >
+          Import JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportJson(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <p className="text-[10px] text-gray-500">Imported files open as a new campaign.</p>
+      {importIssues.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded p-2 text-xs text-red-700">
+          <strong>Import failed ({importIssues.length} {importIssues.length === 1 ? 'problem' : 'problems'}):</strong>
+          <ul className="mt-1 space-y-0.5 max-h-40 overflow-y-auto custom-scrollbar">
+            {importIssues.map((issue, i) => (
+              <li key={i}><code className="font-mono">{issue.path}</code> {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+
+    <div className="pt-6 border-t border-gray-200 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Saved Campaigns</h3>
+        <button
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 transition"
+        >
+          <IconPlus /> New Campaign
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {projects.map((project) => {
+          const isActive = project.id === activeProjectId;
+          return (
+            <div
+              key={project.id}
+              className={`flex items-center gap-2 border rounded-lg p-3 ${isActive ? 'border-blue-600 bg-blue-50' : 'border-gray-200 bg-white'}`}
+            >
+              <button onClick={() => onOpen(project.id)} className="flex-1 text-left min-w-0" disabled={isActive}>
+                <div className={`text-sm font-medium truncate ${isActive ? 'text-blue-700' : 'text-gray-800'}`}>{project.name || 'Untitled'}</div>
+                <div className="text-[10px] text-gray-500">
+                  {getAllProducts(project.config).length} products · edited {formatTime(project.updatedAt)}
+                </div>
+              </button>
+              <button
+                onClick={() => onDuplicate(project.id)}
+                className="text-gray-400 hover:text-blue-600 p-1"
+                title="Duplicate Campaign"
+              >
+                <IconDuplicate />
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                }}
+                className="text-gray-400 hover:text-red-500 p-1"
+                title="Delete Campaign"
+              >
+                <IconTrash />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {unreadableProjects.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-red-700">Needs Repair</h4>
+          <p className="text-[10px] text-gray-500">
+            These couldn't be opened and are kept as stored. Download one, fix the listed fields and import it again.
+          </p>
+          {unreadableProjects.map((project) => (
+            <div key={project.id} className="flex items-start gap-2 border border-red-200 bg-red-50 rounded-lg p-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-800 truncate">{project.name || 'Untitled'}</div>
+                <pre className="text-[10px] text-red-700 whitespace-pre-wrap break-all font-sans max-h-24 overflow-y-auto custom-scrollbar">{project.error}</pre>
+              </div>
+              <button
+                onClick={() => downloadFile(`${toFileSlug(project.name)}.json`, JSON.stringify(project.record, null, 2) + '\n', 'application/json')}
+                className="text-xs text-blue-600 hover:underline p-1"
+                title="Download as stored"
+              >
+                JSON
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                }}
+                className="text-gray-400 hover:text-red-500 p-1"
+                title="Delete Campaign"
+              >
+                <IconTrash />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { CouponContent, EmailConfig, HeroContent, Section, SectionType, SocialLink, SocialNetwork } from '../types';
+import { SECTION_TYPES, SINGLETON_SECTIONS, createSection, moveItem, sectionLabel } from '../utils/sections';
+import { MISSING_UNSUBSCRIBE, SOCIAL_NETWORKS, hasUnsubscribe } from '../utils/compliance';
+import { HERO_IMAGE_HEIGHT, heroImageRequirement } from '../utils/imageProbe';
+import { IconArrowDown, IconArrowUp, IconPlus, IconTrash } from './Icons';
+import { ImageStatus } from './ImageStatus';
+import { ImageUpload } from './ImageUpload';
+
+type SectionsEditorProps = {
+  config: EmailConfig;
+  onChange: (config: EmailConfig) => void;
+  onEditProducts: (sectionId: string) => void;
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+const RICH_TEXT_HINT = <span className="text-gray-400 font-normal">(&lt;b&gt;, &lt;i&gt;, &lt;a&gt; allowed)</span>;
+
+export const SectionsEditor = ({ config, onChange, onEditProducts }: SectionsEditorProps) => {
+  const [newType, setNewType] = useState<SectionType>('text');
+  const { sections } = config;
+
+  const setSections = (next: Section[]) => onChange({ ...config, sections: next });
+  const updateSection = (index: number, section: Section) => setSections(sections.map((s, i) => (i === index ? section : s)));
+
+  const removeSection = (index: number) => {
+    const section = sections[index];
+    if (section.type === 'products' && section.products.length > 0
+      && !confirm(`Remove this product section and its ${section.products.length} products?`)) return;
+    setSections(sections.filter((_, i) => i !== index));
+  };
+
+  const addableTypes = SECTION_TYPES.filter(({ type }) =>
+    !SINGLETON_SECTIONS.includes(type) || !sections.some((s) => s.type === type));
+
+  const addSection = () => {
+    const type = addableTypes.some((t) => t.type === newType) ? newType : addableTypes[0].type;
+    // New sections go above the footer so it stays last
+    const footerIndex = sections.findIndex((s) => s.type === 'footer');
+    const at = footerIndex === -1 ? sections.length : footerIndex;
+    setSections([...sections.slice(0, at), createSection(type), ...sections.slice(at)]);
+  };
+
+  const field = (label: React.ReactNode, value: string, onValue: (value: string) => void, multiline = false) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      {multiline
+        ? <textarea value={value} onChange={(e) => onValue(e.target.value)} className={inputClass} rows={2} />
+        : <input type="text" value={value} onChange={(e) => onValue(e.target.value)} className={inputClass} />}
+    </div>
+  );
+
+  const heroFields = (index: number, hero: HeroContent, hidden: boolean) => {
+    const set = (changes: Partial<HeroContent>) => updateSection(index, { id: sections[index].id, type: 'hero', hero: { ...hero, ...changes }, hidden });
+    return (
+      <>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={hidden}
+            onChange={(e) => updateSection(index, { id: sections[index].id, type: 'hero', hero, hidden: e.target.checked })}
+          />
+          Hide from the email (content is kept)
+        </label>
+        <ImageUpload requirement={heroImageRequirement(config)} onImage={(imageUrl) => set({ imageUrl })}>
+          {field(`Image URL (Rec: ${config.layout.contentWidth}x${HERO_IMAGE_HEIGHT})`, hero.imageUrl, (imageUrl) => set({ imageUrl }))}
+          <ImageStatus url={hero.imageUrl} requirement={heroImageRequirement(config)} />
+        </ImageUpload>
+        {field('Image Alt Text (defaults to the headline)', hero.imageAlt, (imageAlt) => set({ imageAlt }))}
+        {field('Headline', hero.title, (title) => set({ title }))}
+        {field(<>Subtitle {RICH_TEXT_HINT}</>, hero.subtitle, (subtitle) => set({ subtitle }), true)}
+        <div className="grid grid-cols-2 gap-2">
+          {field('Button Text', hero.ctaText, (ctaText) => set({ ctaText }))}
+          {field('Button Link', hero.ctaLink, (ctaLink) => set({ ctaLink }))}
+        </div>
+      </>
+    );
+  };
+
+  const couponFields = (index: number, coupon: CouponContent) => {
+    const set = (changes: Partial<CouponContent>) => updateSection(index, { id: sections[index].id, type: 'coupon', coupon: { ...coupon, ...changes } });
+    return (
+      <>
+        {field('Title', coupon.title, (title) => set({ title }))}
+        {field('Code', coupon.code, (code) => set({ code }))}
+        {field(<>Terms {RICH_TEXT_HINT}</>, coupon.description, (description) => set({ description }), true)}
+        <div className="grid grid-cols-2 gap-2">
+          {field('Button Text (Optional)', coupon.ctaText, (ctaText) => set({ ctaText }))}
+          {field('Button Link', coupon.ctaLink, (ctaLink) => set({ ctaLink }))}
+        </div>
+      </>
+    );
+  };
+
+  // The footer card edits the shared footer settings rather than the section itself
+  const footerFields = () => {
+    const { footer } = config;
+    const set = (changes: Partial<EmailConfig['footer']>) => onChange({ ...config, footer: { ...footer, ...changes } });
+    const setSocial = (links: SocialLink[]) => set({ socialLinks: links });
+    return (
+      <>
+        {field(<>Footer Text {RICH_TEXT_HINT}</>, footer.text, (text) => set({ text }), true)}
+        {field('Address', footer.address, (address) => set({ address }))}
+        {field('Unsubscribe URL', footer.unsubscribeUrl, (unsubscribeUrl) => set({ unsubscribeUrl }))}
+        {!hasUnsubscribe(config) && <p className="text-[10px] text-red-600">{MISSING_UNSUBSCRIBE}</p>}
+        <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+          <input type="checkbox" checked={footer.unsubscribeOneClick} onChange={(e) => set({ unsubscribeOneClick: e.target.checked })} />
+          URL accepts one-click unsubscribe (RFC 8058 POST)
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {field('Preferences URL (Optional)', footer.preferencesUrl, (preferencesUrl) => set({ preferencesUrl }))}
+          {field('View in Browser URL (Optional)', footer.viewInBrowserUrl, (viewInBrowserUrl) => set({ viewInBrowserUrl }))}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Social Links</label>
+          <div className="space-y-2">
+            {footer.socialLinks.map((link, linkIndex) => (
+              <div key={linkIndex} className="flex items-center gap-2">
+                <select
+                  value={link.network}
+                  onChange={(e) => setSocial(footer.socialLinks.map((l, i) => (i === linkIndex ? { ...l, network: e.target.value as SocialNetwork } : l)))}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md text-xs bg-white"
+                >
+                  {SOCIAL_NETWORKS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={link.url}
+                  onChange={(e) => setSocial(footer.socialLinks.map((l, i) => (i === linkIndex ? { ...l, url: e.target.value } : l)))}
+                  className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-xs"
+                  placeholder="https://"
+                />
+                <button onClick={() => setSocial(footer.socialLinks.filter((_, i) => i !== linkIndex))} className="p-1 text-gray-400 hover:text-red-500" title="Remove Link">
+                  <IconTrash />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setSocial([...footer.socialLinks, { network: 'facebook', url: '' }])}
+            className="mt-2 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <IconPlus /> Add Social Link
+          </button>
+        </div>
+      </>
+    );
+  };
+
+  const renderFields = (section: Section, index: number) => {
+    switch (section.type) {
+      case 'header':
+        return <p className="text-xs text-gray-500">Shows the company logo, or the name when there is no logo.</p>;
+      case 'hero':
+        return heroFields(index, section.hero, section.hidden);
+      case 'products':
+        return (
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{section.products.length} products · {section.template} template</span>
+            <button onClick={() => onEditProducts(section.id)} className="text-blue-600 hover:text-blue-700 font-medium">
+              Edit products &rarr;
+            </button>
+          </div>
+        );
+      case 'text':
+        return (
+          <>
+            {field(<>Text {RICH_TEXT_HINT}</>, section.text, (text) => updateSection(index, { ...section, text }), true)}
+            <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={section.align === 'center'}
+                onChange={(e) => updateSection(index, { ...section, align: e.target.checked ? 'center' : 'left' })}
+              />
+              Center text
+            </label>
+          </>
+        );
+      case 'divider':
+        return <p className="text-xs text-gray-500">A thin rule between the sections around it.</p>;
+      case 'coupon':
+        return couponFields(index, section.coupon);
+      case 'footer':
+        return footerFields();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Sections</h3>
+
+      {sections.map((section, index) => (
+        <div key={section.id} id={`section-card-${index}`} className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-gray-700">{index + 1}. {sectionLabel(section.type)}
+              {section.type === 'hero' && section.hidden && <span className="ml-1 font-normal text-gray-400">(hidden)</span>}
+            </span>
+            <div className="flex items-center gap-1 text-gray-400">
+              <button onClick={() => setSections(moveItem(sections, index, index - 1))} disabled={index === 0} className="p-1 hover:text-gray-700 disabled:opacity-30" title="Move Up">
+                <IconArrowUp />
+              </button>
+              <button onClick={() => setSections(moveItem(sections, index, index + 1))} disabled={index === sections.length - 1} className="p-1 hover:text-gray-700 disabled:opacity-30" title="Move Down">
+                <IconArrowDown />
+              </button>
+              <button onClick={() => removeSection(index)} className="p-1 hover:text-red-500" title="Remove Section">
+                <IconTrash />
+              </button>
+            </div>
+          </div>
+          {renderFields(section, index)}
+        </div>
+      ))}
+
+      {sections.length === 0 && (
+        <div className="text-center py-8 text-gray-400 text-sm italic border-2 border-dashed border-gray-200 rounded-lg">
+          The email body is empty.
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={addableTypes.some((t) => t.type === newType) ? newType : addableTypes[0]?.type}
+          onChange={(e) => setNewType(e.target.value as SectionType)}
+          className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm bg-white"
+        >
+          {addableTypes.map(({ type, label, description }) => (
+            <option key={type} value={type}>{label}: {description}</option>
+          ))}
+        </select>
+        <button
+          onClick={addSection}
+          className="text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 transition"
+        >
+          Add Section
+        </button>
+      </div>
+    </div>
+  );
+};
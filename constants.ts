@@ -0,0 +1,139 @@
+import { EmailConfig } from './types';
+
+// --- Default Data ---
+
+export const INITIAL_CONFIG: EmailConfig = {
+  subject: 'The Summer Collection is here',
+  preheader: 'New headphones, watches and cameras, with up to 20% off this week only.',
+  layout: {
+    contentWidth: 600,
+    productImageSize: 'large',
+    columns: 2,
+    gutter: 20,
+  },
+  theme: {
+    primaryColor: '#3b82f6',
+    backgroundColor: '#ffffff',
+    textColor: '#1f2937',
+    accentColor: '#ef4444',
+    dark: {
+      enabled: false,
+      backgroundColor: '#111827',
+      surfaceColor: '#1f2937',
+      textColor: '#f9fafb',
+      mutedTextColor: '#9ca3af',
+      primaryColor: '#60a5fa',
+      borderColor: '#374151',
+    },
+  },
+  company: {
+    name: 'TechNova',
+    logoUrl: 'https://via.placeholder.com/150x50/3b82f6/ffffff?text=TechNova',
+    logoDarkUrl: '',
+    websiteUrl: 'https://example.com',
+  },
+  sections: [
+    { id: 'header', type: 'header' },
+    {
+      id: 'hero',
+      type: 'hero',
+      hero: {
+        imageUrl: 'https://images.unsplash.com/photo-1496181133206-80ce9b88a853?ixlib=rb-1.2.1&auto=format&fit=crop&w=1200&h=600&q=80',
+        imageAlt: 'Laptop and accessories on a desk',
+        title: 'Summer Collection 2024',
+        subtitle: 'Discover the latest trends in technology and design.',
+        ctaText: 'Shop Now',
+        ctaLink: 'https://example.com/shop',
+      },
+      hidden: false,
+    },
+    {
+      id: 'products',
+      type: 'products',
+      template: 'classic',
+      products: [
+        {
+          id: '1',
+          name: 'Wireless Headphones',
+          price: '$199.00',
+          discountText: 'Save $50',
+          pricingMode: 'standard',
+          description: 'Noise cancelling, 40h battery life. Great for travel.',
+          imageUrl: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?ixlib=rb-1.2.1&auto=format&fit=crop&w=600&q=80',
+          imageAlt: '',
+          link: 'https://example.com/p1',
+          brandName: 'Sony',
+          brandLogoUrl: '',
+          brandLogoDarkUrl: '',
+          renderMode: 'html',
+          spanFullRow: false,
+        },
+        {
+          id: '2',
+          name: 'Smart Watch Series 7',
+          price: '$299.00',
+          discountText: 'Up to 20% Off',
+          pricingMode: 'discount', 
+          description: 'Fitness tracking, heart rate monitor, ECG, Always-On Retina display, water resistant.',
+          imageUrl: 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?ixlib=rb-1.2.1&auto=format&fit=crop&w=600&q=80',
+          imageAlt: '',
+          link: 'https://example.com/p2',
+          brandName: 'Apple',
+          brandLogoUrl: 'https://upload.wikimedia.org/wikipedia/commons/f/fa/Apple_logo_black.svg',
+          brandLogoDarkUrl: '',
+          renderMode: 'html',
+          spanFullRow: false,
+        },
+        {
+          id: '3',
+          name: 'Exclusive Camera',
+          price: '$1200.00',
+          discountText: '',
+          pricingMode: 'hidden',
+          description: 'Professional grade photography gear. Inquire for pricing.',
+          imageUrl: 'https://images.unsplash.com/photo-1516035069371-29a1b244cc32?ixlib=rb-1.2.1&auto=format&fit=crop&w=600&q=80',
+          imageAlt: '',
+          link: 'https://example.com/p3',
+          brandName: 'Leica',
+          brandLogoUrl: '',
+          brandLogoDarkUrl: '',
+          renderMode: 'html',
+          spanFullRow: false,
+        },
+      ],
+    },
+    { id: 'footer', type: 'footer' },
+  ],
+  footer: {
+    text: '© 2024 TechNova Inc. All rights reserved.',
+    address: '123 Innovation Dr, Tech City, CA 94000',
+    unsubscribeUrl: 'https://example.com/unsubscribe',
+    unsubscribeOneClick: false,
+    preferencesUrl: 'https://example.com/preferences',
+    viewInBrowserUrl: '',
+    socialLinks: [
+      { network: 'instagram', url: 'https://instagram.com/technova' },
+      { network: 'x', url: 'https://x.com/technova' },
+    ],
+  },
+  output: {
+    outlookSafe: false,
+    language: 'en',
+  },
+  tracking: {
+    enabled: false,
+    source: 'newsletter',
+    medium: 'email',
+    campaign: '',
+    productContent: 'index',
+    redirectUrl: '',
+    openPixelUrl: '',
+  },
+  mergeTags: {
+    dialect: 'none',
+    customOpen: '[[',
+    customClose: ']]',
+    samples: {},
+  },
+  exportProfiles: [],
+};
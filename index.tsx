@@ -1,516 +1,356 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
+import { DarkPalette, EmailConfig, LinkTracking, Product, ProductSection, ProductTemplate, SavedProject, UnreadableProject } from './types';
+import { INITIAL_CONFIG } from './constants';
+import {
+  IconGrid,
+  IconList,
+  IconBanner,
+  IconCopy,
+  IconCode,
+  IconTrash,
+  IconPlus,
+  IconImage,
+  IconArrowUp,
+  IconArrowDown,
+  IconDuplicate,
+  IconGrip,
+  IconUndo,
+  IconRedo,
+} from './components/Icons';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { ProductImportDialog } from './components/ProductImportDialog';
+import { EmlExportDialog } from './components/EmlExportDialog';
+import { PackageExportDialog } from './components/PackageExportDialog';
+import { CompatibilityPanel } from './components/CompatibilityPanel';
+import { AccessibilityPanel } from './components/AccessibilityPanel';
+import { ImageStatus } from './components/ImageStatus';
+import { ImageUpload } from './components/ImageUpload';
+import { SectionsEditor } from './components/SectionsEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { DevicePreview } from './components/DevicePreview';
+import { MergeTagsEditor } from './components/MergeTagsEditor';
+import { ExportProfilesEditor } from './components/ExportProfilesEditor';
+import { InboxPreview } from './components/InboxPreview';
+import {
+  listProjects,
+  listUnreadableProjects,
+  getProject,
+  createProject,
+  saveProject,
+  duplicateProject,
+  deleteProject,
+  getActiveProjectId,
+  setActiveProjectId,
+} from './utils/projectStorage';
+import {
+  MAX_GRID_COLUMNS,
+  MAX_GRID_GUTTER,
+  ValidationIssue,
+  formatIssues,
+  parseConfigDocument,
+  serializeConfigDocument,
+  validateEmailConfig,
+} from './utils/configValidation';
+import { downloadFile, toFileSlug } from './utils/download';
+import {
+  generateEmailHTML,
+  getBannerImagePixelWidth,
+  getGridImagePixelWidth,
+  getListImagePixelWidth,
+} from './utils/emailGenerator';
+import { generatePlainText } from './utils/plainText';
+import { LintLocation, lintEmailHtml } from './utils/compatLint';
+import { auditAccessibility } from './utils/accessibilityAudit';
+import { BRAND_LOGO_REQUIREMENT, COMPANY_LOGO_REQUIREMENT, productImageRequirement } from './utils/imageProbe';
+import { PREVIEW_CLIENTS, PREVIEW_DEVICES, PreviewClient, PreviewDevice, blockImages, simulateClient, simulateDarkMode } from './utils/previewTransforms';
+import { applySampleValues } from './utils/mergeTags';
+import { MISSING_UNSUBSCRIBE, hasUnsubscribe } from './utils/compliance';
+import { applyExportProfile, checkAssetHosts } from './utils/exportProfiles';
+import { ConfigHistory, canRedo, canUndo, createHistory, currentConfig, jumpTo, recordChange, redo, undo } from './utils/history';
+import { createSection, getLeadHero, getProductSections, moveItem, newProductId } from './utils/sections';
 
-// --- Types ---
-
-type PricingMode = 'standard' | 'discount' | 'hidden';
-
-type Product = {
-  id: string;
-  name: string;
-  price: string;
-  discountText: string; // e.g. "Up to 50% Off"
-  pricingMode: PricingMode;
-  description: string;
-  imageUrl: string;
-  link: string;
-  brandName: string;
-  brandLogoUrl: string;
-  renderMode: 'html' | 'image-only'; // 'html' = separate text/img, 'image-only' = user provides composite image
-};
+// --- Components ---
 
-type EmailConfig = {
-  template: 'classic' | 'modern' | 'banner';
-  layout: {
-    contentWidth: number; // Default 600
-    productImageSize: 'large' | 'medium' | 'small'; // Affects image scale
-  };
-  theme: {
-    primaryColor: string;
-    backgroundColor: string;
-    textColor: string;
-    accentColor: string; // Used for discounts/highlights
-  };
-  company: {
-    name: string;
-    logoUrl: string;
-    websiteUrl: string;
-  };
-  hero: {
-    show: boolean;
-    imageUrl: string;
-    title: string;
-    subtitle: string;
-    ctaText: string;
-    ctaLink: string;
-  };
-  products: Product[];
-  footer: {
-    text: string;
-    address: string;
-  };
+// Reopens the last edited campaign, seeding the library on first launch
+const openInitialProject = (): SavedProject => {
+  const activeId = getActiveProjectId();
+  const project = (activeId && getProject(activeId))
+    || listProjects()[0]
+    || createProject('My First Campaign', INITIAL_CONFIG);
+  setActiveProjectId(project.id);
+  return project;
 };
 
-// --- Default Data ---
-
-const INITIAL_CONFIG: EmailConfig = {
-  template: 'classic',
-  layout: {
-    contentWidth: 600,
-    productImageSize: 'large',
-  },
-  theme: {
-    primaryColor: '#3b82f6',
-    backgroundColor: '#ffffff',
-    textColor: '#1f2937',
-    accentColor: '#ef4444',
-  },
-  company: {
-    name: 'TechNova',
-    logoUrl: 'https://via.placeholder.com/150x50/3b82f6/ffffff?text=TechNova',
-    websiteUrl: 'https://example.com',
-  },
-  hero: {
-    show: true,
-    imageUrl: 'https://images.unsplash.com/photo-1496181133206-80ce9b88a853?ixlib=rb-1.2.1&auto=format&fit=crop&w=1200&h=600&q=80',
-    title: 'Summer Collection 2024',
-    subtitle: 'Discover the latest trends in technology and design.',
-    ctaText: 'Shop Now',
-    ctaLink: 'https://example.com/shop',
-  },
-  products: [
-    {
-      id: '1',
-      name: 'Wireless Headphones',
-      price: '$199.00',
-      discountText: 'Save $50',
-      pricingMode: 'standard',
-      description: 'Noise cancelling, 40h battery life. Great for travel.',
-      imageUrl: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?ixlib=rb-1.2.1&auto=format&fit=crop&w=600&q=80',
-      link: 'https://example.com/p1',
-      brandName: 'Sony',
-      brandLogoUrl: '',
-      renderMode: 'html',
-    },
-    {
-      id: '2',
-      name: 'Smart Watch Series 7',
-      price: '$299.00',
-      discountText: 'Up to 20% Off',
-      pricingMode: 'discount', 
-      description: 'Fitness tracking, heart rate monitor, ECG, Always-On Retina display, water resistant.',
-      imageUrl: 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?ixlib=rb-1.2.1&auto=format&fit=crop&w=600&q=80',
-      link: 'https://example.com/p2',
-      brandName: 'Apple',
-      brandLogoUrl: 'https://upload.wikimedia.org/wikipedia/commons/f/fa/Apple_logo_black.svg',
-      renderMode: 'html',
-    },
-    {
-      id: '3',
-      name: 'Exclusive Camera',
-      price: '$1200.00',
-      discountText: '',
-      pricingMode: 'hidden',
-      description: 'Professional grade photography gear. Inquire for pricing.',
-      imageUrl: 'https://images.unsplash.com/photo-1516035069371-29a1b244cc32?ixlib=rb-1.2.1&auto=format&fit=crop&w=600&q=80',
-      link: 'https://example.com/p3',
-      brandName: 'Leica',
-      brandLogoUrl: '',
-      renderMode: 'html',
-    },
-  ],
-  footer: {
-    text: '© 2024 TechNova Inc. All rights reserved.',
-    address: '123 Innovation Dr, Tech City, CA 94000',
-  },
-};
+const AUTOSAVE_DELAY_MS = 800;
 
-// --- Email Generator Functions ---
+// Text fields outside the config editor (dialogs, the project name) keep the browser's own undo
+const isOutsideHistory = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  && !target.closest('[data-config-history]');
 
-const generateEmailHTML = (config: EmailConfig) => {
-  const { theme, company, hero, products, footer, layout } = config;
+const DARK_PALETTE_FIELDS: { key: Exclude<keyof DarkPalette, 'enabled'>; label: string }[] = [
+  { key: 'backgroundColor', label: 'Background' },
+  { key: 'surfaceColor', label: 'Surfaces (Header, Cards, Footer)' },
+  { key: 'textColor', label: 'Text' },
+  { key: 'mutedTextColor', label: 'Muted Text' },
+  { key: 'primaryColor', label: 'Primary (Buttons, Prices, Links)' },
+  { key: 'borderColor', label: 'Borders' },
+];
 
-  const buttonStyle = `display: inline-block; padding: 12px 24px; background-color: ${theme.primaryColor}; color: #ffffff; text-decoration: none; border-radius: 4px; font-weight: bold; font-size: 16px;`;
-  const buttonSmallStyle = `display: inline-block; padding: 8px 16px; background-color: ${theme.primaryColor}; color: #ffffff; text-decoration: none; border-radius: 4px; font-weight: bold; font-size: 14px;`;
-  
-  // Scale factor based on size setting
-  const getScaleFactor = () => {
-    if (layout.productImageSize === 'small') return 0.6;
-    if (layout.productImageSize === 'medium') return 0.8;
-    return 1.0;
-  };
+const App = () => {
+  const [initialProject] = useState(openInitialProject);
+  const [history, setHistory] = useState<ConfigHistory>(() => createHistory(initialProject.config));
+  const config: EmailConfig = currentConfig(history);
+  // Every config edit goes through the undo history
+  const setConfig = (next: EmailConfig) => setHistory((h: ConfigHistory) => recordChange(h, next));
+  const [activeTab, setActiveTab] = useState<'content' | 'design' | 'products' | 'projects'>('content');
+  const [htmlOutput, setHtmlOutput] = useState('');
+  const [textOutput, setTextOutput] = useState('');
+  const [previewFormat, setPreviewFormat] = useState<'html' | 'text' | 'inbox'>('html');
+  const [previewDark, setPreviewDark] = useState(false);
+  const [previewSamples, setPreviewSamples] = useState(true);
+  const [previewDevice, setPreviewDevice] = useState<PreviewDevice>('desktop');
+  const [previewSideBySide, setPreviewSideBySide] = useState(false);
+  const [previewClient, setPreviewClient] = useState<PreviewClient>('none');
+  const [previewImagesOff, setPreviewImagesOff] = useState(false);
+  // Which product section the Products tab edits
+  const [productSectionId, setProductSectionId] = useState<string | null>(null);
+  const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [copyFeedback, setCopyFeedback] = useState('');
 
-  // Helper: Calculate exact pixel width for Grid images
-  // Total Width / 2 columns - Padding (approx 20px per cell)
-  const getGridImagePixelWidth = () => {
-    const colWidth = (layout.contentWidth / 2) - 20; 
-    return Math.round(colWidth * getScaleFactor());
-  };
+  // Project library state
+  const [projectId, setProjectId] = useState(initialProject.id);
+  const [projectName, setProjectName] = useState(initialProject.name);
+  const [projects, setProjects] = useState<SavedProject[]>(listProjects);
+  const [unreadableProjects, setUnreadableProjects] = useState<UnreadableProject[]>(listUnreadableProjects);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState('');
+  const [importIssues, setImportIssues] = useState<ValidationIssue[]>([]);
+  const [showProductImport, setShowProductImport] = useState(false);
+  const [showEmlExport, setShowEmlExport] = useState(false);
+  const [showPackageExport, setShowPackageExport] = useState(false);
+  const [showCompatibility, setShowCompatibility] = useState(false);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [exportProfileId, setExportProfileId] = useState(''); // '' = export the URLs as entered
+  // What is currently on disk, so opening a project doesn't count as an edit
+  const persisted = useRef({ config: initialProject.config, name: initialProject.name });
 
-  // Helper: Calculate exact pixel width for Banner images
-  // Total Width - Padding
-  const getBannerImagePixelWidth = () => {
-    let scale = getScaleFactor();
-    if (layout.productImageSize === 'medium') scale = 0.85; // slightly different scale for banner
-    if (layout.productImageSize === 'small') scale = 0.7;
-    // Assuming full width but maybe some internal padding
-    return Math.round(layout.contentWidth * scale); 
-  };
+  useEffect(() => {
+    const html = generateEmailHTML(config);
+    setHtmlOutput(html);
+    setTextOutput(generatePlainText(config));
+  }, [config]);
 
-  const getListImagePixelWidth = () => {
-    if (layout.productImageSize === 'small') return 100;
-    if (layout.productImageSize === 'medium') return 140;
-    return 180;
-  };
+  const compatWarnings = useMemo(() => lintEmailHtml(htmlOutput), [htmlOutput]);
+  const accessibilityIssues = useMemo(() => auditAccessibility(htmlOutput, config), [htmlOutput, config]);
+  // Sample merge-tag values only ever reach the preview, never copies or exports
+  const showSamples = previewSamples && config.mergeTags.dialect !== 'none';
+  const previewHtml = useMemo(() => {
+    const html = showSamples ? applySampleValues(htmlOutput, config.mergeTags, 'html') : htmlOutput;
+    const themed = previewDark ? simulateDarkMode(html) : html;
+    const emulated = simulateClient(themed, previewClient);
+    return previewImagesOff ? blockImages(emulated) : emulated;
+  }, [htmlOutput, previewDark, previewClient, previewImagesOff, showSamples, config.mergeTags]);
+  const previewText = useMemo(
+    () => (showSamples ? applySampleValues(textOutput, config.mergeTags, 'text') : textOutput),
+    [textOutput, showSamples, config.mergeTags],
+  );
 
-  // Helper: Render Brand Info
-  const renderBrand = (p: Product, align: 'left' | 'center' = 'center') => {
-    if (!p.brandName && !p.brandLogoUrl) return '';
-    const justify = align === 'left' ? 'flex-start' : 'center';
-    return `
-      <div style="margin-bottom: 8px; display: flex; align-items: center; justify-content: ${justify}; gap: 6px;">
-        ${p.brandLogoUrl ? `<img src="${p.brandLogoUrl}" alt="${p.brandName}" width="20" height="20" style="display:inline-block; vertical-align:middle;" />` : ''}
-        ${p.brandName ? `<span style="font-size: 11px; text-transform: uppercase; color: #9ca3af; letter-spacing: 1px; font-weight: 600; vertical-align:middle;">${p.brandName}</span>` : ''}
-      </div>
-    `;
+  const productSections = getProductSections(config);
+  const activeGroup: ProductSection | undefined = productSections.find((s) => s.id === productSectionId) ?? productSections[0];
+
+  const editProducts = (sectionId: string) => {
+    setProductSectionId(sectionId);
+    setActiveTab('products');
   };
 
-  // Helper: Render Price
-  const renderPrice = (p: Product, fontSize: string = '18px') => {
-    if (p.pricingMode === 'hidden') return '';
-    if (p.pricingMode === 'discount') {
-      return `<p style="margin: 0 0 10px 0; color: ${theme.accentColor}; font-weight: bold; font-size: ${fontSize};">${p.discountText}</p>`;
+  const updateDarkPalette = (changes: Partial<DarkPalette>) =>
+    setConfig({ ...config, theme: { ...config.theme, dark: { ...config.theme.dark, ...changes } } });
+
+  const updateTracking = (changes: Partial<LinkTracking>) =>
+    setConfig({ ...config, tracking: { ...config.tracking, ...changes } });
+
+  // Jumps from a linter finding to the editor field that produced it
+  const showLocation = (location: LintLocation) => {
+    const section = location.sectionIndex === undefined ? undefined : config.sections[location.sectionIndex];
+    if (!section) {
+      setActiveTab(location.section === 'document' ? 'design' : 'content');
+    } else if (section.type === 'products' && location.productIndex !== undefined) {
+      editProducts(section.id);
+      setTimeout(() => document.getElementById(`product-card-${location.productIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    } else {
+      setActiveTab('content');
+      setTimeout(() => document.getElementById(`section-card-${location.sectionIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
     }
-    return `<p style="margin: 0 0 10px 0; color: ${theme.primaryColor}; font-weight: bold; font-size: ${fontSize};">${p.price}</p>`;
   };
 
-  // 1. Classic Grid (2 Columns)
-  const renderProductsGrid = () => {
-    let html = '<table width="100%" cellpadding="0" cellspacing="0" border="0"><tr>';
-    const imgPixelWidth = getGridImagePixelWidth();
-    
-    products.forEach((product, index) => {
-      // New Row logic
-      if (index > 0 && index % 2 === 0) {
-        html += '</tr><tr>';
-      }
-      
-      let content = '';
-      if (product.renderMode === 'image-only') {
-        content = `
-          <a href="${product.link}" style="text-decoration:none; display:block; text-align: center;">
-            <img src="${product.imageUrl}" alt="${product.name}" width="${imgPixelWidth}" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto; border-radius: 8px;" />
-          </a>
-        `;
-      } else {
-        content = `
-          <table width="100%" height="100%" cellpadding="0" cellspacing="0" border="0" style="border: 1px solid #e5e7eb; border-radius: 8px; overflow: hidden; background-color: #ffffff;">
-            <!-- 1. Image Row -->
-            <tr>
-              <td align="center" style="padding-top: ${layout.productImageSize === 'large' ? '0' : '15px'}; font-size: 0;" valign="top">
-                <a href="${product.link}" style="text-decoration:none; display:block;">
-                  <img src="${product.imageUrl}" alt="${product.name}" width="${imgPixelWidth}" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto; object-fit: cover; aspect-ratio: 1/1;" />
-                </a>
-              </td>
-            </tr>
-            <!-- 2. Content Row -->
-            <tr>
-              <td style="padding: 15px 15px 5px 15px; text-align: center;" valign="top">
-                ${renderBrand(product, 'center')}
-                <h3 style="margin: 0 0 8px 0; color: ${theme.textColor}; font-size: 16px; line-height: 1.3;">${product.name}</h3>
-                <p style="margin: 0 0 10px 0; color: #6b7280; font-size: 14px; line-height: 1.5;">${product.description}</p>
-                ${renderPrice(product)}
-              </td>
-            </tr>
-            <!-- 3. Button Row -->
-            <tr>
-              <td style="padding: 0 15px 20px 15px; text-align: center;" valign="bottom">
-                <a href="${product.link}" style="display: inline-block; padding: 10px 20px; background-color: ${theme.primaryColor}; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 14px; font-weight: bold;">View Details</a>
-              </td>
-            </tr>
-          </table>
-        `;
-      }
-
-      html += `
-        <td width="50%" valign="top" style="padding: 10px;">
-          ${content}
-        </td>
-      `;
-    });
-    // Fill empty cell if odd number of products
-    if (products.length % 2 !== 0) {
-        html += '<td width="50%"></td>';
+  const persistNow = () => {
+    if (persisted.current.config === config && persisted.current.name === projectName) return;
+    try {
+      const { project: saved, issues } = saveProject(projectId, { name: projectName, config });
+      persisted.current = { config, name: projectName };
+      setLastSavedAt(saved.updatedAt);
+      setSaveError(issues.length > 0 ? `Not saved until fixed: ${issues[0].path} ${issues[0].message}. The last valid version is kept.` : '');
+      refreshProjects();
+    } catch (err) {
+      console.error(err);
+      setSaveError('Autosave failed. Browser storage may be full.');
     }
-    html += '</tr></table>';
-    return html;
   };
 
-  // 2. Modern List
-  const renderProductsList = () => {
-    let html = '<table width="100%" cellpadding="0" cellspacing="0" border="0">';
-    const imgSize = getListImagePixelWidth();
-
-    products.forEach((product) => {
-      let content = '';
-      if (product.renderMode === 'image-only') {
-        content = `
-           <a href="${product.link}" style="text-decoration:none; display:block;">
-             <img src="${product.imageUrl}" alt="${product.name}" width="${layout.contentWidth - 40}" style="display: block; border-radius: 8px; width: 100%; height: auto;" />
-           </a>
-        `;
-      } else {
-        content = `
-            <table width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td width="${imgSize + 10}" valign="top">
-                  <a href="${product.link}" style="text-decoration:none; display:block;">
-                    <img src="${product.imageUrl}" alt="${product.name}" width="${imgSize}" style="display: block; border-radius: 6px; object-fit: cover; height: ${imgSize}px; width: ${imgSize}px;" />
-                  </a>
-                </td>
-                <td valign="top" style="padding-left: 20px;">
-                  ${renderBrand(product, 'left')}
-                  <h3 style="margin: 0 0 5px 0; color: ${theme.textColor}; font-size: 18px;">${product.name}</h3>
-                  ${renderPrice(product)}
-                  <p style="margin: 0 0 15px 0; color: #6b7280; font-size: 14px; line-height: 1.4;">${product.description}</p>
-                  <a href="${product.link}" style="color: ${theme.primaryColor}; text-decoration: underline; font-size: 14px;">Buy Now &rarr;</a>
-                </td>
-              </tr>
-            </table>
-        `;
+  // Autosave after a short pause in editing
+  useEffect(() => {
+    const timer = setTimeout(persistNow, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [config, projectName, projectId]);
+
+  // Flush pending edits when the tab is closed or reloaded
+  const persistRef = useRef(persistNow);
+  persistRef.current = persistNow;
+  useEffect(() => {
+    const flush = () => persistRef.current();
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, []);
+
+  // Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z (or Ctrl+Y) step through the config history,
+  // including while typing, since edits are coalesced per field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isOutsideHistory(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        setHistory((h: ConfigHistory) => (e.shiftKey ? redo(h) : undo(h)));
+      } else if (key === 'y' && !e.metaKey) {
+        e.preventDefault();
+        setHistory(redo);
       }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-      html += `
-        <tr>
-          <td style="padding: 15px 0; border-bottom: 1px solid #e5e7eb;">
-            ${content}
-          </td>
-        </tr>
-      `;
-    });
-    html += '</table>';
-    return html;
+  const refreshProjects = () => {
+    setProjects(listProjects());
+    setUnreadableProjects(listUnreadableProjects());
   };
 
-  // 3. Banner Style
-  const renderProductsBanner = () => {
-    let html = '<table width="100%" cellpadding="0" cellspacing="0" border="0">';
-    const imgPixelWidth = getBannerImagePixelWidth();
-
-    products.forEach((product) => {
-       let content = '';
-       if (product.renderMode === 'image-only') {
-          content = `
-            <a href="${product.link}" style="text-decoration:none; display:block; text-align: center;">
-              <img src="${product.imageUrl}" alt="${product.name}" width="${imgPixelWidth}" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto;" />
-            </a>
-          `;
-       } else {
-          content = `
-            <table width="100%" cellpadding="0" cellspacing="0" border="0" style="border: 1px solid #e5e7eb; border-radius: 0px; margin-bottom: 20px;">
-              <!-- Image Row -->
-              <tr>
-                <td align="center" style="padding-top: ${layout.productImageSize === 'large' ? '0' : '20px'};">
-                  <a href="${product.link}" style="text-decoration:none; display:block;">
-                    <img src="${product.imageUrl}" alt="${product.name}" width="${imgPixelWidth}" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto;" />
-                  </a>
-                </td>
-              </tr>
-              <!-- Content Row -->
-              <tr>
-                <td style="padding: 24px; text-align: left; background-color: #ffffff;">
-                   ${(product.brandName || product.brandLogoUrl) ? `
-                   <table width="100%" border="0" cellspacing="0" cellpadding="0" style="margin-bottom: 8px;">
-                     <tr>
-                       <td>${renderBrand(product, 'left')}</td>
-                     </tr>
-                   </table>
-                   ` : ''}
-                   <h3 style="margin: 0 0 10px 0; color: ${theme.textColor}; font-size: 22px; line-height: 1.3;">${product.name}</h3>
-                   <p style="margin: 0 0 20px 0; color: #6b7280; font-size: 15px; line-height: 1.6;">${product.description}</p>
-                   <table width="100%" border="0" cellspacing="0" cellpadding="0" style="border-top: 1px solid #f3f4f6; padding-top: 15px;">
-                      <tr>
-                        <td valign="middle" align="left">
-                           ${renderPrice(product, '20px')}
-                        </td>
-                        <td valign="middle" align="right">
-                           <a href="${product.link}" style="${buttonSmallStyle}">Shop Now</a>
-                        </td>
-                      </tr>
-                   </table>
-                </td>
-              </tr>
-            </table>
-          `;
-       }
-
-       html += `
-         <tr>
-           <td style="padding-bottom: 20px;">
-             ${content}
-           </td>
-         </tr>
-       `;
-    });
-    html += '</table>';
-    return html;
+  const loadProject = (project: SavedProject) => {
+    persisted.current = { config: project.config, name: project.name };
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setHistory(createHistory(project.config));
+    setActiveProjectId(project.id);
+    setLastSavedAt(null);
+    setSaveError('');
+    refreshProjects();
   };
 
-  // --- HTML Assembly ---
-  
-  const headerHTML = `
-    <!-- Header -->
-    <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #ffffff; border-bottom: 2px solid ${theme.primaryColor};">
-      <tr>
-        <td align="center" style="padding: 20px;">
-          <a href="${company.websiteUrl}" style="text-decoration:none;">
-            ${company.logoUrl 
-              ? `<img src="${company.logoUrl}" alt="${company.name}" height="50" style="display: block; height: 50px;" />` 
-              : `<h1 style="margin:0; color: ${theme.primaryColor};">${company.name}</h1>`
-            }
-          </a>
-        </td>
-      </tr>
-    </table>
-  `;
-
-  const heroHTML = hero.show ? `
-    <!-- Hero Section -->
-    <table width="100%" cellpadding="0" cellspacing="0" border="0">
-      <tr>
-        <td style="padding: 0; text-align: center;">
-          <a href="${hero.ctaLink}" style="display:block; text-decoration:none;">
-            <img src="${hero.imageUrl}" alt="${hero.title}" width="${layout.contentWidth}" style="display: block; width: 100%; max-width: ${layout.contentWidth}px; height: auto;" />
-          </a>
-        </td>
-      </tr>
-      <tr>
-        <td style="padding: 30px 20px; background-color: ${config.template === 'modern' ? '#f8fafc' : '#ffffff'}; text-align: center; border-bottom: 1px solid #f3f4f6;">
-          <h2 style="margin: 0 0 10px 0; color: ${theme.textColor}; font-size: 24px;">${hero.title}</h2>
-          <p style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 1.5;">${hero.subtitle}</p>
-          <a href="${hero.ctaLink}" style="${buttonStyle}">${hero.ctaText}</a>
-        </td>
-      </tr>
-    </table>
-  ` : '';
-
-  let productsHTML = '';
-  if (config.template === 'classic') productsHTML = renderProductsGrid();
-  else if (config.template === 'modern') productsHTML = renderProductsList();
-  else if (config.template === 'banner') productsHTML = renderProductsBanner();
-
-  const footerHTML = `
-    <!-- Footer -->
-    <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f3f4f6; margin-top: 20px;">
-      <tr>
-        <td align="center" style="padding: 30px 20px; color: #6b7280; font-size: 12px; line-height: 1.5;">
-          <p style="margin: 0 0 10px 0; font-weight: bold;">${company.name}</p>
-          <p style="margin: 0 0 10px 0;">${footer.address}</p>
-          <p style="margin: 0;">${footer.text}</p>
-          <div style="margin-top: 15px;">
-            <a href="${company.websiteUrl}" style="color: ${theme.primaryColor}; text-decoration: none;">Visit Website</a>
-          </div>
-        </td>
-      </tr>
-    </table>
-  `;
-
-  // Wrapper for centering in Outlook
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-<meta charset="utf-8">
-<meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>${hero.title}</title>
-</head>
-<body style="margin: 0; padding: 0; background-color: #f3f4f6;">
-  <center>
-    <table border="0" cellpadding="0" cellspacing="0" width="100%" style="background-color: #f3f4f6;">
-      <tr>
-        <td align="center" style="padding: 20px 0;">
-          <table border="0" cellpadding="0" cellspacing="0" width="${layout.contentWidth}" style="max-width: ${layout.contentWidth}px; background-color: ${theme.backgroundColor}; width: ${layout.contentWidth}px;">
-            <tr>
-              <td>
-                ${headerHTML}
-                ${heroHTML}
-                <table width="100%" cellpadding="0" cellspacing="0" border="0">
-                  <tr>
-                    <td style="padding: 20px;">
-                      ${productsHTML}
-                    </td>
-                  </tr>
-                </table>
-                ${footerHTML}
-              </td>
-            </tr>
-          </table>
-        </td>
-      </tr>
-    </table>
-  </center>
-</body>
-</html>
-  `;
-};
+  const openProject = (id: string) => {
+    persistNow();
+    const project = getProject(id);
+    if (project) loadProject(project);
+  };
 
-// --- Icons ---
-const IconGrid = () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="7" height="7"/><rect x="14" y="3" width="7" height="7"/><rect x="14" y="14" width="7" height="7"/><rect x="3" y="14" width="7" height="7"/></svg>;
-const IconList = () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="8" y1="6" x2="21" y2="6"/><line x1="8" y1="12" x2="21" y2="12"/><line x1="8" y1="18" x2="21" y2="18"/><line x1="3" y1="6" x2="3.01" y2="6"/><line x1="3" y1="12" x2="3.01" y2="12"/><line x1="3" y1="18" x2="3.01" y2="18"/></svg>;
-const IconBanner = () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="5" width="20" height="14" rx="2" /><line x1="2" y1="10" x2="22" y2="10" /></svg>;
-const IconCopy = () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>;
-const IconCode = () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="16 18 22 12 16 6"/><polyline points="8 6 2 12 8 18"/></svg>;
-const IconTrash = () => <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>;
-const IconPlus = () => <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>;
-const IconImage = () => <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>;
+  const createNewProject = () => {
+    persistNow();
+    loadProject(createProject('Untitled Campaign', INITIAL_CONFIG));
+  };
 
-// --- Components ---
+  const copyProject = (id: string) => {
+    persistNow();
+    try {
+      duplicateProject(id);
+      refreshProjects();
+    } catch (err) {
+      console.error(err);
+      setSaveError('Could not duplicate campaign. Browser storage may be full.');
+    }
+  };
 
-const App = () => {
-  const [config, setConfig] = useState<EmailConfig>(INITIAL_CONFIG);
-  const [activeTab, setActiveTab] = useState<'content' | 'design' | 'products'>('content');
-  const [htmlOutput, setHtmlOutput] = useState('');
-  const [copyFeedback, setCopyFeedback] = useState('');
+  const removeProject = (id: string) => {
+    deleteProject(id);
+    if (id !== projectId) {
+      refreshProjects();
+      return;
+    }
+    loadProject(listProjects()[0] || createProject('Untitled Campaign', INITIAL_CONFIG));
+  };
 
-  useEffect(() => {
-    const html = generateEmailHTML(config);
-    setHtmlOutput(html);
-  }, [config]);
+  const exportJson = () => {
+    // The file has to pass the same checks as Import JSON
+    const { issues } = validateEmailConfig(config);
+    if (issues.length > 0) {
+      alert(`Fix these fields before exporting JSON:\n\n${formatIssues(issues)}`);
+      return;
+    }
+    downloadFile(`${toFileSlug(projectName)}.json`, serializeConfigDocument(projectName, config), 'application/json');
+  };
+
+  const importJson = async (file: File) => {
+    const result = parseConfigDocument(await file.text(), file.name.replace(/\.json$/i, ''));
+    if (result.issues.length > 0) {
+      setImportIssues(result.issues);
+      return;
+    }
+    setImportIssues([]);
+    persistNow();
+    loadProject(createProject(result.name, result.config));
+  };
 
   // Helper to calculate hint for image dimensions
-  const getImageHint = () => {
-    const width = config.layout.contentWidth;
-    // const padding = 40; // Approx padding
-    if (config.template === 'classic') {
-       // 2 columns
-       const colWidth = (width / 2) - 20;
-       let scale = 1;
-       if (config.layout.productImageSize === 'medium') scale = 0.8;
-       if (config.layout.productImageSize === 'small') scale = 0.6;
-       const px = Math.round(colWidth * scale);
-       return `${px} x ${px} px`;
+  const getImageHint = (group: ProductSection) => {
+    const { layout } = config;
+    if (group.template === 'classic') {
+       const px = getGridImagePixelWidth(layout);
+       const hint = `${px} x ${px} px`;
+       return group.products.some((p) => p.spanFullRow)
+         ? `${hint} (full-row items: ${getGridImagePixelWidth(layout, true)} px width)`
+         : hint;
     }
-    if (config.template === 'modern') {
-       let px = 180;
-       if (config.layout.productImageSize === 'medium') px = 140;
-       if (config.layout.productImageSize === 'small') px = 100;
+    if (group.template === 'modern') {
+       const px = getListImagePixelWidth(layout);
        return `${px} x ${px} px`;
     }
-    if (config.template === 'banner') {
-       // const colWidth = width;
-       let scale = 1;
-       if (config.layout.productImageSize === 'medium') scale = 0.85;
-       if (config.layout.productImageSize === 'small') scale = 0.7;
-       const px = Math.round(width * scale);
-       return `${px} px width`;
+    if (group.template === 'banner') {
+       return `${getBannerImagePixelWidth(layout)} px width`;
     }
     return '';
   };
 
+  // Exports still go through without an unsubscribe link, but only after an explicit OK
+  const confirmCompliance = () => hasUnsubscribe(config) || confirm(`${MISSING_UNSUBSCRIBE}\n\nExport anyway?`);
+
+  // The chosen profile rewrites exports only; the preview keeps the URLs as entered
+  const exportProfile = config.exportProfiles.find((p) => p.id === exportProfileId);
+  const exportConfig = useMemo(() => (exportProfile ? applyExportProfile(config, exportProfile) : config), [config, exportProfile]);
+  const exportOutputs = () => (exportProfile
+    ? { html: generateEmailHTML(exportConfig), text: generatePlainText(exportConfig) }
+    : { html: htmlOutput, text: textOutput });
+
+  // Unlike the unsubscribe check there is no "export anyway": off-host images are a hard stop.
+  // The .zip dialog runs its own check once it knows which images it relocated.
+  const confirmExport = () => {
+    const issues = exportProfile ? checkAssetHosts(config, exportProfile) : [];
+    if (issues.length > 0) {
+      alert(`Not exported: the "${exportProfile.name}" profile only allows images from ${exportProfile.allowedAssetHosts.filter((h) => h.trim()).join(', ')}.\n\n${formatIssues(issues)}`);
+      return false;
+    }
+    return confirmCompliance();
+  };
+
   const copyVisual = async () => {
+    if (!confirmExport()) return;
+    const { html, text } = exportOutputs();
     try {
-      const blob = new Blob([htmlOutput], { type: 'text/html' });
-      const textBlob = new Blob(['Please paste this in an email client that supports HTML.'], { type: 'text/plain' });
+      const blob = new Blob([html], { type: 'text/html' });
+      const textBlob = new Blob([text], { type: 'text/plain' });
       await navigator.clipboard.write([
         new ClipboardItem({ 'text/html': blob, 'text/plain': textBlob }),
       ]);
@@ -523,8 +363,9 @@ const App = () => {
   };
 
   const copyCode = async () => {
+    if (!confirmExport()) return;
     try {
-      await navigator.clipboard.writeText(htmlOutput);
+      await navigator.clipboard.writeText(exportOutputs().html);
       setCopyFeedback('HTML Source Code Copied!');
     } catch (err) {
       setCopyFeedback('Failed to copy code.');
@@ -532,32 +373,114 @@ const App = () => {
     setTimeout(() => setCopyFeedback(''), 3000);
   };
 
+  const downloadPlainText = () => {
+    if (!confirmExport()) return;
+    downloadFile(`${toFileSlug(projectName)}.txt`, exportOutputs().text, 'text/plain;charset=utf-8');
+  };
+
+  // Product edits apply to the product section open in the Products tab
+  const updateGroup = (changes: Partial<ProductSection>) => {
+    setConfig({
+      ...config,
+      sections: config.sections.map((s) => (s.id === activeGroup.id ? { ...activeGroup, ...changes } : s)),
+    });
+  };
+
+  const addProductSection = () => {
+    const section = createSection('products');
+    const footerIndex = config.sections.findIndex((s) => s.type === 'footer');
+    const at = footerIndex === -1 ? config.sections.length : footerIndex;
+    setConfig({ ...config, sections: [...config.sections.slice(0, at), section, ...config.sections.slice(at)] });
+    setProductSectionId(section.id);
+  };
+
   const updateProduct = (index: number, field: keyof Product, value: any) => {
-    const newProducts = [...config.products];
+    const newProducts = [...activeGroup.products];
     newProducts[index] = { ...newProducts[index], [field]: value };
-    setConfig({ ...config, products: newProducts });
+    updateGroup({ products: newProducts });
   };
 
   const removeProduct = (index: number) => {
-    const newProducts = config.products.filter((_, i) => i !== index);
-    setConfig({ ...config, products: newProducts });
+    updateGroup({ products: activeGroup.products.filter((_, i) => i !== index) });
+  };
+
+  const moveProduct = (from: number, to: number) => {
+    updateGroup({ products: moveItem(activeGroup.products, from, to) });
+  };
+
+  const duplicateProduct = (index: number) => {
+    const copy: Product = { ...activeGroup.products[index], id: newProductId() };
+    const products = [...activeGroup.products];
+    products.splice(index + 1, 0, copy);
+    updateGroup({ products });
+  };
+
+  // Arrow keys on a card's drag handle move it; the handle keeps focus as the card moves
+  const handleProductKeyDown = (index: number, e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    moveProduct(index, e.key === 'ArrowUp' ? index - 1 : index + 1);
+  };
+
+  const endProductDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const dropProduct = (index: number) => {
+    if (dragIndex !== null) moveProduct(dragIndex, index);
+    endProductDrag();
+  };
+
+  // --- Bulk Actions ---
+
+  // Selections from other product sections are ignored rather than cleared
+  const selectedProducts = activeGroup ? activeGroup.products.filter((p) => selectedProductIds.includes(p.id)) : [];
+  const allProductsSelected = !!activeGroup && activeGroup.products.length > 0 && selectedProducts.length === activeGroup.products.length;
+
+  const toggleProductSelected = (id: string) => {
+    setSelectedProductIds(selectedProductIds.includes(id)
+      ? selectedProductIds.filter((selected) => selected !== id)
+      : [...selectedProductIds, id]);
+  };
+
+  const toggleAllProducts = () => {
+    setSelectedProductIds(allProductsSelected ? [] : activeGroup.products.map((p) => p.id));
+  };
+
+  const updateSelectedProducts = (changes: Partial<Product>) => {
+    updateGroup({ products: activeGroup.products.map((p) => (selectedProductIds.includes(p.id) ? { ...p, ...changes } : p)) });
+  };
+
+  const removeSelectedProducts = () => {
+    if (!confirm(`Remove ${selectedProducts.length} selected products?`)) return;
+    updateGroup({ products: activeGroup.products.filter((p) => !selectedProductIds.includes(p.id)) });
+    setSelectedProductIds([]);
   };
 
   const addProduct = () => {
     const newProduct: Product = {
-      id: Date.now().toString(),
+      id: newProductId(),
       name: 'New Product',
       price: '$99.00',
       discountText: '',
       pricingMode: 'standard',
       description: 'Product description goes here.',
       imageUrl: 'https://via.placeholder.com/600x600',
+      imageAlt: '',
       link: '#',
       brandName: '',
       brandLogoUrl: '',
+      brandLogoDarkUrl: '',
       renderMode: 'html',
+      spanFullRow: false,
     };
-    setConfig({ ...config, products: [...config.products, newProduct] });
+    updateGroup({ products: [...activeGroup.products, newProduct] });
+  };
+
+  const importProducts = (products: Product[], mode: 'append' | 'replace') => {
+    updateGroup({ products: mode === 'replace' ? products : [...activeGroup.products, ...products] });
+    setShowProductImport(false);
   };
 
   return (
@@ -591,15 +514,53 @@ const App = () => {
           >
             Design
           </button>
+          <button 
+            onClick={() => setActiveTab('projects')}
+            className={`flex-1 py-3 text-sm font-medium ${activeTab === 'projects' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            Projects
+          </button>
         </div>
 
-        {/* Scrollable Content Area */}
-        <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+        {/* Scrollable Content Area; every tab but Projects edits the config history */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6" data-config-history={activeTab === 'projects' ? undefined : true}>
           
           {/* CONTENT TAB */}
           {activeTab === 'content' && (
             <div className="space-y-6">
               <div className="space-y-4">
+                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Inbox</h3>
+                <div>
+                  <label className="flex justify-between text-xs font-medium text-gray-700 mb-1">
+                    Subject <span className="font-normal text-gray-400">{config.subject.trim().length}</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={config.subject}
+                    onChange={(e) => setConfig({...config, subject: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    placeholder={getLeadHero(config)?.title || config.company.name}
+                  />
+                </div>
+                <div>
+                  <label className="flex justify-between text-xs font-medium text-gray-700 mb-1">
+                    Preheader <span className="font-normal text-gray-400">{config.preheader.trim().length}</span>
+                  </label>
+                  <textarea
+                    rows={2}
+                    value={config.preheader}
+                    onChange={(e) => setConfig({...config, preheader: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    placeholder="Shown after the subject in the inbox list"
+                  />
+                  <p className="text-[10px] text-gray-500 mt-1">
+                    Aim for a subject under 40 characters and a preheader of 40–100 so mobile inboxes don't cut them.{' '}
+                    <button onClick={() => setPreviewFormat('inbox')} className="text-blue-600 hover:underline">Preview inbox</button>
+                  </p>
+                </div>
+              </div>
+
+              <div className="pt-6 border-t border-gray-200 space-y-4">
                 <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Company</h3>
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Company Name</label>
@@ -610,7 +571,7 @@ const App = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                   />
                 </div>
-                <div>
+                <ImageUpload requirement={COMPANY_LOGO_REQUIREMENT} onImage={(logoUrl) => setConfig({...config, company: {...config.company, logoUrl}})}>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Logo URL</label>
                   <input 
                     type="text" 
@@ -619,7 +580,18 @@ const App = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                     placeholder="https://..."
                   />
-                </div>
+                  <ImageStatus url={config.company.logoUrl} requirement={COMPANY_LOGO_REQUIREMENT} />
+                </ImageUpload>
+                <ImageUpload requirement={COMPANY_LOGO_REQUIREMENT} onImage={(logoDarkUrl) => setConfig({...config, company: {...config.company, logoDarkUrl}})}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Logo URL for Dark Mode (Optional)</label>
+                  <input 
+                    type="text" 
+                    value={config.company.logoDarkUrl}
+                    onChange={(e) => setConfig({...config, company: {...config.company, logoDarkUrl: e.target.value}})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    placeholder="Light-on-transparent variant"
+                  />
+                </ImageUpload>
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Website URL</label>
                   <input 
@@ -631,129 +603,195 @@ const App = () => {
                 </div>
               </div>
 
-              <div className="pt-6 border-t border-gray-200 space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Hero Banner</h3>
-                  <label className="flex items-center cursor-pointer">
-                    <input 
-                      type="checkbox" 
-                      checked={config.hero.show} 
-                      onChange={(e) => setConfig({...config, hero: {...config.hero, show: e.target.checked}})}
-                      className="sr-only peer"
-                    />
-                    <div className="w-9 h-5 bg-gray-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600 relative"></div>
-                  </label>
-                </div>
-                
-                {config.hero.show && (
-                  <>
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700 mb-1">Image URL (Rec: {config.layout.contentWidth}x300)</label>
-                      <input 
-                        type="text" 
-                        value={config.hero.imageUrl}
-                        onChange={(e) => setConfig({...config, hero: {...config.hero, imageUrl: e.target.value}})}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700 mb-1">Headline</label>
-                      <input 
-                        type="text" 
-                        value={config.hero.title}
-                        onChange={(e) => setConfig({...config, hero: {...config.hero, title: e.target.value}})}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700 mb-1">Subtitle</label>
-                      <textarea 
-                        value={config.hero.subtitle}
-                        onChange={(e) => setConfig({...config, hero: {...config.hero, subtitle: e.target.value}})}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                        rows={2}
-                      />
-                    </div>
-                    <div className="grid grid-cols-2 gap-2">
-                       <div>
-                        <label className="block text-xs font-medium text-gray-700 mb-1">Button Text</label>
-                        <input 
-                          type="text" 
-                          value={config.hero.ctaText}
-                          onChange={(e) => setConfig({...config, hero: {...config.hero, ctaText: e.target.value}})}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs font-medium text-gray-700 mb-1">Button Link</label>
-                        <input 
-                          type="text" 
-                          value={config.hero.ctaLink}
-                          onChange={(e) => setConfig({...config, hero: {...config.hero, ctaLink: e.target.value}})}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                        />
-                      </div>
-                    </div>
-                  </>
-                )}
+              <div className="pt-6 border-t border-gray-200">
+                <SectionsEditor config={config} onChange={setConfig} onEditProducts={editProducts} />
               </div>
 
-               <div className="pt-6 border-t border-gray-200 space-y-4">
-                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Footer</h3>
-                <div>
-                  <label className="block text-xs font-medium text-gray-700 mb-1">Footer Text</label>
-                  <textarea 
-                    value={config.footer.text}
-                    onChange={(e) => setConfig({...config, footer: {...config.footer, text: e.target.value}})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    rows={2}
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-gray-700 mb-1">Address</label>
-                  <input 
-                    type="text" 
-                    value={config.footer.address}
-                    onChange={(e) => setConfig({...config, footer: {...config.footer, address: e.target.value}})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                  />
-                </div>
+              <div className="pt-6 border-t border-gray-200">
+                <MergeTagsEditor config={config} onChange={setConfig} />
               </div>
             </div>
           )}
 
           {/* PRODUCTS TAB */}
-          {activeTab === 'products' && (
+          {activeTab === 'products' && !activeGroup && (
+             <div className="text-center py-8 text-gray-400 text-sm border-2 border-dashed border-gray-200 rounded-lg space-y-3">
+               <p className="italic">This email has no product section yet.</p>
+               <button 
+                onClick={addProductSection}
+                className="inline-flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 transition"
+               >
+                 <IconPlus /> Add Product Section
+               </button>
+             </div>
+          )}
+
+          {activeTab === 'products' && activeGroup && (
              <div className="space-y-6">
+               {productSections.length > 1 && (
+                 <div>
+                   <label className="block text-xs font-medium text-gray-700 mb-1">Product Section</label>
+                   <select
+                     value={activeGroup.id}
+                     onChange={(e) => setProductSectionId(e.target.value)}
+                     className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+                   >
+                     {productSections.map((section) => (
+                       <option key={section.id} value={section.id}>
+                         Section {config.sections.indexOf(section) + 1} · {section.products.length} products · {section.template}
+                       </option>
+                     ))}
+                   </select>
+                 </div>
+               )}
+
+               <div>
+                 <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Template</h3>
+                 <div className="grid grid-cols-3 gap-2">
+                   <button 
+                     onClick={() => updateGroup({template: 'classic'})}
+                     className={`flex flex-col items-center justify-center p-2 border rounded-lg transition-all ${activeGroup.template === 'classic' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
+                   >
+                     <IconGrid />
+                     <span className="text-[10px] font-medium mt-1">Grid</span>
+                   </button>
+                   <button 
+                     onClick={() => updateGroup({template: 'modern'})}
+                     className={`flex flex-col items-center justify-center p-2 border rounded-lg transition-all ${activeGroup.template === 'modern' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
+                   >
+                     <IconList />
+                     <span className="text-[10px] font-medium mt-1">List</span>
+                   </button>
+                   <button 
+                     onClick={() => updateGroup({template: 'banner'})}
+                     className={`flex flex-col items-center justify-center p-2 border rounded-lg transition-all ${activeGroup.template === 'banner' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
+                   >
+                     <IconBanner />
+                     <span className="text-[10px] font-medium mt-1">Banner</span>
+                   </button>
+                 </div>
+               </div>
+
                <div className="flex justify-between items-center">
                  <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider">Product List</h3>
-                 <button 
-                  onClick={addProduct}
-                  className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 transition"
-                 >
-                   <IconPlus /> Add Product
-                 </button>
+                 <div className="flex gap-2">
+                   <button 
+                    onClick={() => setShowProductImport(true)}
+                    className="text-xs text-gray-700 bg-white border border-gray-300 px-3 py-1.5 rounded-md hover:bg-gray-50 transition"
+                   >
+                     Import CSV
+                   </button>
+                   <button 
+                    onClick={addProduct}
+                    className="flex items-center gap-1 text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 transition"
+                   >
+                     <IconPlus /> Add Product
+                   </button>
+                 </div>
                </div>
                
                <div className="bg-blue-50 border border-blue-200 rounded p-2 text-xs text-blue-800 flex items-start gap-2">
                  <span className="text-lg">💡</span>
                  <div>
-                   <strong>Recommended Image Cut:</strong> {getImageHint()}
-                   <div className="mt-1 opacity-75">Based on current layout settings.</div>
+                   <strong>Recommended Image Cut:</strong> {getImageHint(activeGroup)}
+                   <div className="mt-1 opacity-75">Based on current layout settings. Upload at 2× these sizes for retina screens.</div>
                  </div>
                </div>
 
+               {activeGroup.products.length > 0 && (
+                 <div className="flex flex-wrap items-center gap-2 bg-gray-50 border border-gray-200 rounded p-2 text-xs text-gray-600">
+                   <label className="flex items-center gap-2 cursor-pointer">
+                     <input type="checkbox" checked={allProductsSelected} onChange={toggleAllProducts} />
+                     {selectedProducts.length > 0 ? `${selectedProducts.length} selected` : 'Select all'}
+                   </label>
+                   {selectedProducts.length > 0 && (
+                     <>
+                       <select
+                         value=""
+                         onChange={(e) => e.target.value && updateSelectedProducts({ pricingMode: e.target.value as Product['pricingMode'] })}
+                         className="ml-auto px-2 py-1 border border-gray-300 rounded bg-white text-xs"
+                       >
+                         <option value="">Set pricing…</option>
+                         <option value="standard">Price</option>
+                         <option value="discount">Discount</option>
+                         <option value="hidden">Hidden</option>
+                       </select>
+                       <select
+                         value=""
+                         onChange={(e) => e.target.value && updateSelectedProducts({ renderMode: e.target.value as Product['renderMode'] })}
+                         className="px-2 py-1 border border-gray-300 rounded bg-white text-xs"
+                       >
+                         <option value="">Set layout…</option>
+                         <option value="html">Standard</option>
+                         <option value="image-only">Image Only</option>
+                       </select>
+                       <button
+                         onClick={removeSelectedProducts}
+                         className="flex items-center gap-1 px-2 py-1 border border-red-200 rounded bg-white text-red-600 hover:bg-red-50"
+                       >
+                         <IconTrash /> Delete
+                       </button>
+                     </>
+                   )}
+                 </div>
+               )}
+
                <div className="space-y-4">
-                 {config.products.map((product, index) => (
-                   <div key={product.id} className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm relative group">
-                     <button 
-                      onClick={() => removeProduct(index)}
-                      className="absolute top-2 right-2 text-gray-400 hover:text-red-500 p-1 z-10"
-                      title="Remove Product"
-                     >
-                       <IconTrash />
-                     </button>
-                     
+                 {activeGroup.products.map((product, index) => (
+                   <div
+                     key={product.id}
+                     id={`product-card-${index}`}
+                     onDragOver={(e) => {
+                       if (dragIndex === null) return;
+                       e.preventDefault();
+                       setDropIndex(index);
+                     }}
+                     onDrop={(e) => {
+                       e.preventDefault();
+                       dropProduct(index);
+                     }}
+                     className={`bg-white border rounded-lg p-3 shadow-sm relative group transition ${dropIndex === index && dragIndex !== index ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'} ${dragIndex === index ? 'opacity-50' : ''}`}
+                   >
+                     <div className="flex items-center gap-2 mb-3 text-gray-400">
+                       <input
+                         type="checkbox"
+                         checked={selectedProductIds.includes(product.id)}
+                         onChange={() => toggleProductSelected(product.id)}
+                         title="Select for bulk actions"
+                       />
+                       <button
+                         draggable
+                         onDragStart={(e) => {
+                           setDragIndex(index);
+                           e.dataTransfer.effectAllowed = 'move';
+                           e.dataTransfer.setData('text/plain', product.id);
+                           e.dataTransfer.setDragImage(document.getElementById(`product-card-${index}`), 16, 16);
+                         }}
+                         onDragEnd={endProductDrag}
+                         onKeyDown={(e) => handleProductKeyDown(index, e)}
+                         className="p-1 cursor-grab hover:text-gray-700 focus:text-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-200 rounded"
+                         title="Drag to reorder, or focus and use the arrow keys"
+                         aria-label={`Move product ${index + 1} of ${activeGroup.products.length}`}
+                       >
+                         <IconGrip />
+                       </button>
+                       <span className="text-xs font-semibold text-gray-700 truncate">{index + 1}. {product.name}</span>
+                       <div className="ml-auto flex items-center gap-1">
+                         <button onClick={() => moveProduct(index, index - 1)} disabled={index === 0} className="p-1 hover:text-gray-700 disabled:opacity-30" title="Move Up">
+                           <IconArrowUp />
+                         </button>
+                         <button onClick={() => moveProduct(index, index + 1)} disabled={index === activeGroup.products.length - 1} className="p-1 hover:text-gray-700 disabled:opacity-30" title="Move Down">
+                           <IconArrowDown />
+                         </button>
+                         <button onClick={() => duplicateProduct(index)} className="p-1 hover:text-gray-700" title="Duplicate Product">
+                           <IconDuplicate />
+                         </button>
+                         <button onClick={() => removeProduct(index)} className="p-1 hover:text-red-500" title="Remove Product">
+                           <IconTrash />
+                         </button>
+                       </div>
+                     </div>
+
                      <div className="grid grid-cols-1 gap-3">
                        
                        {/* Render Mode Toggle */}
@@ -775,12 +813,24 @@ const App = () => {
                          </div>
                        </div>
 
+                       {activeGroup.template === 'classic' && (
+                         <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                           <input 
+                             type="checkbox" 
+                             checked={product.spanFullRow}
+                             onChange={(e) => updateProduct(index, 'spanFullRow', e.target.checked)}
+                           />
+                           Span full row (featured)
+                         </label>
+                       )}
+
                        {/* Image Input */}
                        <div className="flex gap-3 items-start">
                           <div className="w-16 h-16 bg-gray-100 rounded border border-gray-200 flex-shrink-0 overflow-hidden">
                              {product.imageUrl ? <img src={product.imageUrl} className="w-full h-full object-cover" /> : <IconImage />}
                           </div>
                           <div className="flex-1">
+                            <ImageUpload requirement={productImageRequirement(config, activeGroup.template, product)} onImage={(url) => updateProduct(index, 'imageUrl', url)}>
                              <label className="block text-xs text-gray-500 mb-1">
                                {product.renderMode === 'image-only' ? 'Full Image URL (Includes Text)' : 'Product Image URL'}
                              </label>
@@ -790,6 +840,8 @@ const App = () => {
                               onChange={(e) => updateProduct(index, 'imageUrl', e.target.value)}
                               className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono"
                             />
+                            <ImageStatus url={product.imageUrl} requirement={productImageRequirement(config, activeGroup.template, product)} />
+                            </ImageUpload>
                             <div className="mt-2">
                                <label className="block text-xs text-gray-500 mb-1">Click Link URL</label>
                                <input 
@@ -799,6 +851,21 @@ const App = () => {
                                 className="w-full px-2 py-1 border border-gray-300 rounded text-xs text-blue-600"
                               />
                             </div>
+                            <div className="mt-2">
+                               <label className="block text-xs text-gray-500 mb-1">
+                                 {product.renderMode === 'image-only' ? 'Alt Text (the text in the image)' : 'Image Alt Text'}
+                               </label>
+                               <input
+                                type="text"
+                                value={product.imageAlt}
+                                onChange={(e) => updateProduct(index, 'imageAlt', e.target.value)}
+                                className={`w-full px-2 py-1 border rounded text-xs ${product.renderMode === 'image-only' && !product.imageAlt.trim() ? 'border-yellow-400' : 'border-gray-300'}`}
+                                placeholder={product.name || 'Describe the image'}
+                              />
+                              {product.renderMode === 'image-only' && !product.imageAlt.trim() && (
+                                <p className="text-[10px] text-yellow-700 mt-1">With images off, readers only see this text. Repeat the offer shown in the image.</p>
+                              )}
+                            </div>
                           </div>
                        </div>
                        
@@ -816,7 +883,7 @@ const App = () => {
                                    className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
                                  />
                                </div>
-                               <div>
+                               <ImageUpload requirement={BRAND_LOGO_REQUIREMENT} onImage={(url) => updateProduct(index, 'brandLogoUrl', url)}>
                                  <label className="block text-xs text-gray-500 mb-1">Brand Logo URL (Opt)</label>
                                  <input 
                                    type="text" 
@@ -824,8 +891,22 @@ const App = () => {
                                    onChange={(e) => updateProduct(index, 'brandLogoUrl', e.target.value)}
                                    className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
                                  />
-                               </div>
+                                 <ImageStatus url={product.brandLogoUrl || ''} requirement={BRAND_LOGO_REQUIREMENT} />
+                               </ImageUpload>
                              </div>
+                             {product.brandLogoUrl && (
+                               <div className="mb-2">
+                                 <ImageUpload requirement={BRAND_LOGO_REQUIREMENT} onImage={(url) => updateProduct(index, 'brandLogoDarkUrl', url)}>
+                                 <label className="block text-xs text-gray-500 mb-1">Brand Logo URL for Dark Mode (Opt)</label>
+                                 <input 
+                                   type="text" 
+                                   value={product.brandLogoDarkUrl || ''} 
+                                   onChange={(e) => updateProduct(index, 'brandLogoDarkUrl', e.target.value)}
+                                   className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                                 />
+                                 </ImageUpload>
+                               </div>
+                             )}
 
                              <label className="block text-xs text-gray-500 mb-1">Product Title</label>
                              <input 
@@ -883,7 +964,7 @@ const App = () => {
                                 )}
                              </div>
 
-                             <label className="block text-xs text-gray-500 mb-1">Description</label>
+                             <label className="block text-xs text-gray-500 mb-1">Description <span className="text-gray-400 font-normal">(&lt;b&gt;, &lt;i&gt;, &lt;a&gt; allowed)</span></label>
                              <textarea 
                                value={product.description} 
                                onChange={(e) => updateProduct(index, 'description', e.target.value)}
@@ -898,7 +979,7 @@ const App = () => {
                    </div>
                  ))}
                  
-                 {config.products.length === 0 && (
+                 {activeGroup.products.length === 0 && (
                    <div className="text-center py-8 text-gray-400 text-sm italic border-2 border-dashed border-gray-200 rounded-lg">
                      No products added yet.
                    </div>
@@ -911,33 +992,6 @@ const App = () => {
           {activeTab === 'design' && (
             <div className="space-y-6">
               <div>
-                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Select Template</h3>
-                <div className="grid grid-cols-3 gap-2">
-                  <button 
-                    onClick={() => setConfig({...config, template: 'classic'})}
-                    className={`flex flex-col items-center justify-center p-2 border rounded-lg transition-all ${config.template === 'classic' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
-                  >
-                    <IconGrid />
-                    <span className="text-[10px] font-medium mt-1">Grid</span>
-                  </button>
-                  <button 
-                    onClick={() => setConfig({...config, template: 'modern'})}
-                    className={`flex flex-col items-center justify-center p-2 border rounded-lg transition-all ${config.template === 'modern' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
-                  >
-                    <IconList />
-                    <span className="text-[10px] font-medium mt-1">List</span>
-                  </button>
-                  <button 
-                    onClick={() => setConfig({...config, template: 'banner'})}
-                    className={`flex flex-col items-center justify-center p-2 border rounded-lg transition-all ${config.template === 'banner' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
-                  >
-                    <IconBanner />
-                    <span className="text-[10px] font-medium mt-1">Banner</span>
-                  </button>
-                </div>
-              </div>
-
-              <div className="pt-6 border-t border-gray-200">
                 <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Layout Settings</h3>
                 <div className="space-y-4">
                   <div>
@@ -979,9 +1033,162 @@ const App = () => {
                       </button>
                     </div>
                   </div>
+
+                  {productSections.some((s) => s.template === 'classic') && (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-2">Grid Columns</label>
+                        <div className="flex rounded shadow-sm">
+                          {Array.from({ length: MAX_GRID_COLUMNS }, (_, i) => i + 1).map((columns) => (
+                            <button 
+                              key={columns}
+                              onClick={() => setConfig({...config, layout: {...config.layout, columns}})}
+                              className={`flex-1 py-1.5 text-xs border ${columns > 1 ? 'border-l-0' : 'rounded-l'} ${columns === MAX_GRID_COLUMNS ? 'rounded-r' : ''} ${config.layout.columns === columns ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                            >
+                              {columns}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="flex justify-between items-center mb-1">
+                          <label className="text-xs font-medium text-gray-700">Gutter</label>
+                          <span className="text-xs text-gray-500">{config.layout.gutter}px</span>
+                        </div>
+                        <input 
+                          type="range" 
+                          min="0" 
+                          max={MAX_GRID_GUTTER} 
+                          step="2"
+                          value={config.layout.gutter}
+                          onChange={(e) => setConfig({...config, layout: {...config.layout, gutter: parseInt(e.target.value)}})}
+                          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="pt-6 border-t border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Output</h3>
+                <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={config.output.outlookSafe}
+                    onChange={(e) => setConfig({...config, output: {...config.output, outlookSafe: e.target.checked}})}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-medium">Outlook-safe rendering</span>
+                    <span className="block text-gray-500">Adds MSO ghost tables, VML buttons and Outlook resets. Other clients are unaffected.</span>
+                  </span>
+                </label>
+                <div className="mt-4">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Language</label>
+                  <input
+                    type="text"
+                    value={config.output.language}
+                    onChange={(e) => setConfig({...config, output: {...config.output, language: e.target.value.trim()}})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                    placeholder="en"
+                  />
+                  <p className="text-[10px] text-gray-500 mt-1">Sets &lt;html lang&gt; so screen readers use the right voice, e.g. en, de or fr-CA.</p>
                 </div>
               </div>
 
+              <div className="pt-6 border-t border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Link Tracking</h3>
+                <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={config.tracking.enabled}
+                    onChange={(e) => updateTracking({ enabled: e.target.checked })}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-medium">Add UTM parameters to every link</span>
+                    <span className="block text-gray-500">Applied when rendering. Parameters a link already has are kept, and utm_content names the slot (header, hero, product-3, footer…).</span>
+                  </span>
+                </label>
+                {config.tracking.enabled && (
+                  <div className="mt-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">utm_source</label>
+                        <input 
+                          type="text" 
+                          value={config.tracking.source}
+                          onChange={(e) => updateTracking({ source: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">utm_medium</label>
+                        <input 
+                          type="text" 
+                          value={config.tracking.medium}
+                          onChange={(e) => updateTracking({ medium: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">utm_campaign</label>
+                      <input 
+                        type="text" 
+                        value={config.tracking.campaign}
+                        onChange={(e) => updateTracking({ campaign: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        placeholder="summer-sale-2024"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Product utm_content</label>
+                      <select
+                        value={config.tracking.productContent}
+                        onChange={(e) => updateTracking({ productContent: e.target.value as LinkTracking['productContent'] })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+                      >
+                        <option value="index">Position (product-1, product-2…)</option>
+                        <option value="id">Product id (product-&lt;id&gt;)</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Click-tracker URL (Optional)</label>
+                      <input 
+                        type="text" 
+                        value={config.tracking.redirectUrl}
+                        onChange={(e) => updateTracking({ redirectUrl: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                        placeholder="https://click.example.com/r?url={url}"
+                      />
+                      {config.tracking.redirectUrl.trim() && !config.tracking.redirectUrl.includes('{url}') ? (
+                        <p className="text-[10px] text-red-600 mt-1">Add the {'{url}'} placeholder; links are not wrapped until it is there.</p>
+                      ) : (
+                        <p className="text-[10px] text-gray-500 mt-1">{'{url}'} becomes the encoded destination and {'{slot}'} the utm_content.</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className="mt-4">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Open-Tracking Pixel URL (Optional)</label>
+                  <input 
+                    type="text" 
+                    value={config.tracking.openPixelUrl}
+                    onChange={(e) => updateTracking({ openPixelUrl: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                    placeholder="https://t.example.com/open.gif?id={{email}}"
+                  />
+                  <p className="text-[10px] text-gray-500 mt-1">Added as a 1x1 image at the end of the footer. Merge tags are allowed.</p>
+                </div>
+              </div>
+
+              <div className="pt-6 border-t border-gray-200">
+                <ExportProfilesEditor config={config} onChange={setConfig} />
+              </div>
+
               <div className="pt-6 border-t border-gray-200">
                 <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Palette</h3>
                 <div className="space-y-4">
@@ -1040,9 +1247,68 @@ const App = () => {
                   </div>
                 </div>
               </div>
+
+              <div className="pt-6 border-t border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">Dark Mode</h3>
+                <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer mb-4">
+                  <input 
+                    type="checkbox" 
+                    checked={config.theme.dark.enabled}
+                    onChange={(e) => updateDarkPalette({ enabled: e.target.checked })}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-medium">Ship a dark palette</span>
+                    <span className="block text-gray-500">Apple Mail, Outlook for iOS/Mac and Outlook.com switch to these colors instead of inverting the email.</span>
+                  </span>
+                </label>
+                {config.theme.dark.enabled && (
+                  <div className="space-y-4">
+                    {DARK_PALETTE_FIELDS.map(({ key, label }) => (
+                      <div key={key}>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+                        <div className="flex items-center gap-2">
+                          <input 
+                            type="color" 
+                            value={config.theme.dark[key]}
+                            onChange={(e) => updateDarkPalette({ [key]: e.target.value })}
+                            className="h-8 w-8 rounded border border-gray-300 cursor-pointer"
+                          />
+                          <input 
+                            type="text" 
+                            value={config.theme.dark[key]}
+                            onChange={(e) => updateDarkPalette({ [key]: e.target.value })}
+                            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm uppercase"
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
+          {/* PROJECTS TAB */}
+          {activeTab === 'projects' && (
+            <ProjectLibrary
+              projects={projects}
+              unreadableProjects={unreadableProjects}
+              activeProjectId={projectId}
+              activeProjectName={projectName}
+              lastSavedAt={lastSavedAt}
+              saveError={saveError}
+              onRename={setProjectName}
+              onCreate={createNewProject}
+              onOpen={openProject}
+              onDuplicate={copyProject}
+              onDelete={removeProject}
+              onExportJson={exportJson}
+              onImportJson={importJson}
+              importIssues={importIssues}
+            />
+          )}
+
         </div>
       </div>
 
@@ -1052,18 +1318,129 @@ const App = () => {
         <div className="bg-white border-b border-gray-200 p-3 flex justify-between items-center shadow-sm z-10">
           <div className="flex items-center gap-2 text-sm text-gray-500">
              <span className="font-semibold text-gray-800">Preview</span>
+             <div className="flex rounded border border-gray-200 text-xs overflow-hidden">
+               <button
+                 onClick={() => setPreviewFormat('html')}
+                 className={`px-2 py-0.5 ${previewFormat === 'html' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+               >
+                 HTML
+               </button>
+               <button
+                 onClick={() => setPreviewFormat('text')}
+                 className={`px-2 py-0.5 border-l border-gray-200 ${previewFormat === 'text' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+               >
+                 Plain Text
+               </button>
+               <button
+                 onClick={() => setPreviewFormat('inbox')}
+                 className={`px-2 py-0.5 border-l border-gray-200 ${previewFormat === 'inbox' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+               >
+                 Inbox
+               </button>
+             </div>
+             {previewFormat === 'html' && (
+               <button
+                 onClick={() => setPreviewDark(!previewDark)}
+                 className={`px-2 py-0.5 rounded border text-xs ${previewDark ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+                 title={config.theme.dark.enabled ? 'Preview the dark palette' : 'No dark palette: preview how clients force-invert the email'}
+               >
+                 {previewDark ? '☾ Dark' : '☀ Light'}
+               </button>
+             )}
+             {config.mergeTags.dialect !== 'none' && (
+               <button
+                 onClick={() => setPreviewSamples(!previewSamples)}
+                 className={`px-2 py-0.5 rounded border text-xs ${previewSamples ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+                 title="Swap merge tags for their sample values in the preview"
+               >
+                 {previewSamples ? 'Sample data' : 'Raw tags'}
+               </button>
+             )}
              <span className="hidden md:inline text-xs bg-gray-100 px-2 py-0.5 rounded border border-gray-200">{config.layout.contentWidth}px width</span>
           </div>
           <div className="flex items-center gap-3">
+             <div className="flex items-center rounded-md border border-gray-300 overflow-hidden">
+               <button
+                 onClick={() => setHistory(undo)}
+                 disabled={!canUndo(history)}
+                 className="p-2 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-30"
+                 title="Undo (Ctrl/⌘+Z)"
+               >
+                 <IconUndo />
+               </button>
+               <button
+                 onClick={() => setHistory(redo)}
+                 disabled={!canRedo(history)}
+                 className="p-2 text-gray-700 bg-white border-l border-gray-300 hover:bg-gray-50 disabled:opacity-30"
+                 title="Redo (Shift+Ctrl/⌘+Z)"
+               >
+                 <IconRedo />
+               </button>
+               <button
+                 onClick={() => setShowHistory(!showHistory)}
+                 className={`px-2 py-2 text-xs font-medium border-l border-gray-300 ${showHistory ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                 title="Show edit history"
+               >
+                 History
+               </button>
+             </div>
+             <button
+               onClick={() => setShowCompatibility(!showCompatibility)}
+               className={`px-3 py-2 text-sm font-medium rounded-md border transition ${compatWarnings.length > 0 ? 'text-yellow-800 bg-yellow-50 border-yellow-200 hover:bg-yellow-100' : 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100'}`}
+               title="Email client compatibility"
+             >
+               {compatWarnings.length > 0 ? `⚠ ${compatWarnings.length}` : '✓'} Compatibility
+             </button>
+             <button
+               onClick={() => setShowAccessibility(!showAccessibility)}
+               className={`px-3 py-2 text-sm font-medium rounded-md border transition ${accessibilityIssues.length > 0 ? 'text-yellow-800 bg-yellow-50 border-yellow-200 hover:bg-yellow-100' : 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100'}`}
+               title="Accessibility audit"
+             >
+               {accessibilityIssues.length > 0 ? `⚠ ${accessibilityIssues.length}` : '✓'} Accessibility
+             </button>
              {copyFeedback && (
                <span className="text-green-600 text-sm font-medium animate-pulse">{copyFeedback}</span>
              )}
+             {config.exportProfiles.length > 0 && (
+               <select
+                 value={exportProfile ? exportProfileId : ''}
+                 onChange={(e) => setExportProfileId(e.target.value)}
+                 className="px-2 py-2 text-sm border border-gray-300 rounded-md bg-white"
+                 title="Export profile used by the buttons to the right"
+               >
+                 <option value="">URLs as entered</option>
+                 {config.exportProfiles.map((profile) => (
+                   <option key={profile.id} value={profile.id}>{profile.name || 'Untitled profile'}</option>
+                 ))}
+               </select>
+             )}
              <button 
                onClick={copyCode}
                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition shadow-sm"
              >
                <IconCode /> Source Code
              </button>
+             <button 
+               onClick={downloadPlainText}
+               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition shadow-sm"
+               title="Download the text/plain alternative"
+             >
+               Plain Text
+             </button>
+             <button 
+               onClick={() => confirmExport() && setShowEmlExport(true)}
+               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition shadow-sm"
+               title="Download a complete message for SMTP catchers or tickets"
+             >
+               .eml
+             </button>
+             <button 
+               onClick={() => confirmCompliance() && setShowPackageExport(true)}
+               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition shadow-sm"
+               title="Download the HTML with its images in a folder"
+             >
+               .zip
+             </button>
              <button 
                onClick={copyVisual}
                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition shadow-sm"
@@ -1073,19 +1450,113 @@ const App = () => {
           </div>
         </div>
 
+        {previewFormat === 'html' && (
+          <div className="bg-white border-b border-gray-200 px-3 py-2 flex items-center gap-3 text-xs text-gray-600">
+            <div className="flex rounded border border-gray-200 overflow-hidden">
+              {PREVIEW_DEVICES.map(({ id, label }, index) => (
+                <button
+                  key={id}
+                  onClick={() => { setPreviewDevice(id); setPreviewSideBySide(false); }}
+                  className={`px-2 py-0.5 ${index > 0 ? 'border-l border-gray-200' : ''} ${!previewSideBySide && previewDevice === id ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setPreviewSideBySide(true)}
+                className={`px-2 py-0.5 border-l border-gray-200 ${previewSideBySide ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                Side by side
+              </button>
+            </div>
+            <label className="flex items-center gap-1">
+              Client
+              <select
+                value={previewClient}
+                onChange={(e) => setPreviewClient(e.target.value as PreviewClient)}
+                className="px-1 py-0.5 border border-gray-200 rounded bg-white"
+                title={PREVIEW_CLIENTS.find((c) => c.id === previewClient)?.description}
+              >
+                {PREVIEW_CLIENTS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={previewImagesOff} onChange={(e) => setPreviewImagesOff(e.target.checked)} />
+              Images off
+            </label>
+            <span className="ml-auto text-gray-400">Emulation is approximate and only affects this preview.</span>
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
         {/* Preview Container */}
-        <div className="flex-1 overflow-auto p-8 flex justify-center">
-           <div className="bg-white shadow-xl min-h-[800px] transition-all duration-300" style={{width: `${config.layout.contentWidth + 50}px`}}>
-             <iframe 
-               srcDoc={htmlOutput}
-               className="w-full h-full min-h-[800px]"
-               title="Email Preview"
-               sandbox="allow-same-origin"
-               style={{border: 'none'}}
-             />
-           </div>
+        <div className="flex-1 overflow-auto p-8 flex">
+           {previewFormat === 'html' ? (
+             <div className="mx-auto">
+               <DevicePreview html={previewHtml} devices={previewSideBySide ? PREVIEW_DEVICES.map((d) => d.id) : [previewDevice]} />
+             </div>
+           ) : (
+             <div className="mx-auto bg-white shadow-xl min-h-[800px] transition-all duration-300" style={{width: `${config.layout.contentWidth + 50}px`}}>
+               {previewFormat === 'text' ? (
+                 <pre className="p-6 text-sm text-gray-800 font-mono whitespace-pre-wrap">{previewText}</pre>
+               ) : (
+                 <InboxPreview config={config} bodyText={previewText} showSamples={showSamples} />
+               )}
+             </div>
+           )}
+        </div>
+
+        {showCompatibility && (
+          <CompatibilityPanel
+            config={config}
+            warnings={compatWarnings}
+            onSelectLocation={showLocation}
+            onClose={() => setShowCompatibility(false)}
+          />
+        )}
+
+        {showAccessibility && (
+          <AccessibilityPanel
+            config={config}
+            issues={accessibilityIssues}
+            onSelectLocation={showLocation}
+            onClose={() => setShowAccessibility(false)}
+          />
+        )}
+
+        {showHistory && (
+          <HistoryPanel
+            history={history}
+            onJump={(index) => setHistory((h: ConfigHistory) => jumpTo(h, index))}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
         </div>
       </div>
+
+      {showProductImport && (
+        <ProductImportDialog
+          existingCount={activeGroup?.products.length ?? 0}
+          onImport={importProducts}
+          onClose={() => setShowProductImport(false)}
+        />
+      )}
+
+      {showEmlExport && (
+        <EmlExportDialog
+          config={exportConfig}
+          fileSlug={toFileSlug(projectName)}
+          onClose={() => setShowEmlExport(false)}
+        />
+      )}
+      {showPackageExport && (
+        <PackageExportDialog
+          config={config}
+          profile={exportProfile}
+          fileSlug={toFileSlug(projectName)}
+          onClose={() => setShowPackageExport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { INITIAL_CONFIG } from '../constants';
+import { RenderResponse, createRenderServer } from './renderService';
+
+const server = createRenderServer().listen(0);
+after(() => server.close());
+
+type ErrorBody = Extract<RenderResponse['body'], { error: string }>;
+
+const post = (path: string, body: string | Buffer, headers: Record<string, string | number> = {}) =>
+  new Promise<{ status: number; headers: Record<string, unknown>; body: RenderResponse['body'] }>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = request({ port, path, method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) }));
+    });
+    // The server stops reading an oversized body; the write side may then fail after the response arrives
+    req.on('error', reject);
+    req.end(body);
+  });
+
+// Every case here is a refusal, so the body has to be the error shape
+const errorBody = (body: RenderResponse['body']): ErrorBody => {
+  assert.ok('error' in body, 'expected an error body');
+  return body;
+};
+
+test('an invalid config is a 400 with the issues listed', async () => {
+  const res = await post('/render', JSON.stringify({ ...INITIAL_CONFIG, subject: 42 }));
+  assert.equal(res.status, 400);
+  const body = errorBody(res.body);
+  assert.equal(body.error, 'invalid_config');
+  assert.ok(body.issues?.some((issue) => issue.path === 'subject'));
+});
+
+test('an oversized body still gets its 413', async () => {
+  const body = Buffer.alloc(2 * 1024 * 1024, ' ');
+
+  const declared = await post('/render', body);
+  assert.equal(declared.status, 413);
+  assert.equal(declared.headers.connection, 'close');
+  assert.equal(errorBody(declared.body).error, 'payload_too_large');
+
+  const chunked = await post('/render', body, { 'Transfer-Encoding': 'chunked' });
+  assert.equal(chunked.status, 413);
+  assert.equal(errorBody(chunked.body).error, 'payload_too_large');
+});
+
+test('images off the profile\'s allowed hosts are a 422', async () => {
+  const config = {
+    ...INITIAL_CONFIG,
+    exportProfiles: [{ id: 'production', name: 'Production', hostRewrites: [], cacheBust: '', allowedAssetHosts: ['cdn.example.com'] }],
+  };
+  const res = await post('/render?profile=production', JSON.stringify(config));
+  assert.equal(res.status, 422);
+  const body = errorBody(res.body);
+  assert.equal(body.error, 'asset_host_not_allowed');
+  assert.ok((body.issues ?? []).length > 0);
+});
@@ -0,0 +1,130 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ValidationIssue, parseConfigDocument } from '../utils/configValidation';
+import { generateEmailHTML } from '../utils/emailGenerator';
+import { generatePlainText } from '../utils/plainText';
+import { collectContentWarnings } from '../utils/renderWarnings';
+import { applyExportProfile, checkAssetHosts, findExportProfile } from '../utils/exportProfiles';
+
+// --- Render Handler ---
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type RenderResponse = {
+  status: number;
+  body:
+    | { html: string; text: string; warnings: ValidationIssue[] }
+    | { error: string; message: string; issues?: ValidationIssue[] };
+};
+
+/**
+ * Turns a JSON request body (an EmailConfig or an exported campaign document)
+ * into the render response, optionally through one of its export profiles.
+ * Kept free of sockets so callers and tests can use it directly.
+ */
+export const renderFromJson = (json: string, profileName?: string): RenderResponse => {
+  const parsed = parseConfigDocument(json);
+  if (parsed.issues.length > 0) {
+    return {
+      status: 400,
+      body: { error: 'invalid_config', message: 'The request body is not a valid EmailConfig.', issues: parsed.issues },
+    };
+  }
+
+  let config = parsed.config;
+  if (profileName !== undefined) {
+    const profile = findExportProfile(config, profileName);
+    if (!profile) {
+      return { status: 400, body: { error: 'unknown_profile', message: `The config has no export profile "${profileName}".` } };
+    }
+    const issues = checkAssetHosts(config, profile);
+    if (issues.length > 0) {
+      return {
+        status: 422,
+        body: { error: 'asset_host_not_allowed', message: `Images must come from the "${profile.name}" profile's allowed hosts.`, issues },
+      };
+    }
+    config = applyExportProfile(config, profile);
+  }
+
+  return {
+    status: 200,
+    body: {
+      html: generateEmailHTML(config),
+      text: generatePlainText(config),
+      warnings: collectContentWarnings(config),
+    },
+  };
+};
+
+// --- HTTP Server ---
+
+class RequestError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+const tooLarge = () => new RequestError(413, 'payload_too_large', `Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+
+// An oversized body is left unread rather than destroyed, so the 413 still reaches
+// the client; the connection is closed once it has been sent
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const route = async (req: IncomingMessage): Promise<{ status: number; body: unknown }> => {
+  const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (pathname === '/health') {
+    return { status: 200, body: { status: 'ok' } };
+  }
+  if (pathname !== '/render') {
+    throw new RequestError(404, 'not_found', `No route for ${pathname}. Use POST /render (optionally ?profile=<name>).`);
+  }
+  if (req.method !== 'POST') {
+    throw new RequestError(405, 'method_not_allowed', 'Use POST /render with a JSON body.');
+  }
+  if (!/^application\/json\b/i.test(req.headers['content-type'] ?? '')) {
+    throw new RequestError(415, 'unsupported_media_type', 'Send the EmailConfig as application/json.');
+  }
+  return renderFromJson(await readBody(req), searchParams.get('profile') ?? undefined);
+};
+
+export const createRenderServer = () =>
+  createServer(async (req, res) => {
+    try {
+      const { status, body } = await route(req);
+      sendJson(res, status, body);
+    } catch (err) {
+      if (err instanceof RequestError) {
+        sendJson(res, err.status, { error: err.code, message: err.message }, err.status === 413 ? { Connection: 'close' } : {});
+        return;
+      }
+      console.error(err);
+      sendJson(res, 500, { error: 'internal_error', message: 'Rendering failed unexpectedly.' });
+    }
+  });
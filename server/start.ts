@@ -0,0 +1,24 @@
+import { parseArgs } from 'node:util';
+import { createRenderServer } from './renderService';
+
+// Starts the render service on localhost only; nothing here needs outbound network.
+//
+//   npm run serve -- --port 8787
+//   curl -X POST localhost:8787/render -H 'Content-Type: application/json' -d @summer.json
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p', default: process.env.PORT ?? '8787' },
+    host: { type: 'string', default: '127.0.0.1' },
+  },
+});
+
+const server = createRenderServer();
+server.listen(Number(values.port), values.host, () => {
+  console.log(`Email render service listening on http://${values.host}:${values.port}`);
+  console.log('POST /render with an EmailConfig JSON body; GET /health for a liveness check.');
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,177 @@
+// --- Types ---
+
+export type PricingMode = 'standard' | 'discount' | 'hidden';
+
+export type Product = {
+  id: string;
+  name: string;
+  price: string;
+  discountText: string; // e.g. "Up to 50% Off"
+  pricingMode: PricingMode;
+  description: string;
+  imageUrl: string;
+  imageAlt: string; // Falls back to the name; image-only products should repeat the text baked into the image
+  link: string;
+  brandName: string;
+  brandLogoUrl: string;
+  brandLogoDarkUrl: string; // Optional variant shown when the client renders in dark mode
+  renderMode: 'html' | 'image-only'; // 'html' = separate text/img, 'image-only' = user provides composite image
+  spanFullRow: boolean; // Classic grid only: featured item takes a whole row
+};
+
+// Colors applied through prefers-color-scheme when the client renders in dark mode
+export type DarkPalette = {
+  enabled: boolean;
+  backgroundColor: string; // Page and content area
+  surfaceColor: string; // Header, cards, hero copy and footer
+  textColor: string;
+  mutedTextColor: string; // Descriptions, brand names, footer copy
+  primaryColor: string; // Buttons, prices and links
+  borderColor: string;
+};
+
+// Campaign parameters added to every http(s) link when the email is rendered
+export type LinkTracking = {
+  enabled: boolean;
+  source: string; // utm_source
+  medium: string; // utm_medium
+  campaign: string; // utm_campaign
+  productContent: 'index' | 'id'; // utm_content for products: "product-3" or "product-<id>"
+  redirectUrl: string; // Optional click-tracker template; {url} is the encoded destination, {slot} the utm_content
+  openPixelUrl: string; // Optional 1x1 open-tracking image placed after the footer; independent of `enabled`
+};
+
+// Swaps one host for another in image and link URLs, e.g. staging-cdn.example.com -> cdn.example.com
+export type HostRewrite = {
+  from: string; // Host as written in the URL, port included if any
+  to: string;
+};
+
+// Named export target such as "Production"; applied to exports only, never to the editor preview
+export type ExportProfile = {
+  id: string;
+  name: string;
+  hostRewrites: HostRewrite[];
+  cacheBust: string; // "name=value" query parameter added to image URLs, e.g. "v=2024-06"; empty = off
+  allowedAssetHosts: string[]; // Hosts every image must come from; "*.example.com" covers subdomains; empty = no check
+};
+
+export type MergeTagDialect = 'none' | 'mailchimp' | 'handlebars' | 'mailgun' | 'custom';
+
+// ESP placeholders such as {{first_name}} that must reach the ESP untouched
+export type MergeTagSettings = {
+  dialect: MergeTagDialect;
+  customOpen: string; // Delimiters for the custom dialect, e.g. "[[" and "]]"
+  customClose: string;
+  samples: Record<string, string>; // Preview values keyed by the full tag as written
+};
+
+export type SocialNetwork = 'facebook' | 'instagram' | 'x' | 'linkedin' | 'youtube' | 'tiktok';
+
+export type SocialLink = {
+  network: SocialNetwork;
+  url: string;
+};
+
+export type ProductTemplate = 'classic' | 'modern' | 'banner';
+
+export type HeroContent = {
+  imageUrl: string;
+  imageAlt: string; // Falls back to the title
+  title: string;
+  subtitle: string;
+  ctaText: string;
+  ctaLink: string;
+};
+
+export type CouponContent = {
+  title: string;
+  code: string;
+  description: string; // Terms or expiry line; rich text
+  ctaText: string; // Button is left out when empty
+  ctaLink: string;
+};
+
+// One block of the email body. Header and footer render the shared company and
+// footer settings; every other section carries its own content.
+export type Section =
+  | { id: string; type: 'header' }
+  | { id: string; type: 'hero'; hero: HeroContent; hidden: boolean } // hidden keeps the content out of the email
+  | { id: string; type: 'products'; template: ProductTemplate; products: Product[] }
+  | { id: string; type: 'text'; text: string; align: 'left' | 'center' } // text is rich text
+  | { id: string; type: 'divider' }
+  | { id: string; type: 'coupon'; coupon: CouponContent }
+  | { id: string; type: 'footer' };
+
+export type SectionType = Section['type'];
+export type ProductSection = Extract<Section, { type: 'products' }>;
+
+export type EmailConfig = {
+  subject: string; // Inbox subject and document <title>; falls back to the lead hero title when empty
+  preheader: string; // Hidden inbox-preview text shown after the subject
+  layout: {
+    contentWidth: number; // Default 600
+    productImageSize: 'large' | 'medium' | 'small'; // Affects image scale
+    columns: number; // Classic grid columns, 1-4
+    gutter: number; // Space between grid cells in px
+  };
+  theme: {
+    primaryColor: string;
+    backgroundColor: string;
+    textColor: string;
+    accentColor: string; // Used for discounts/highlights
+    dark: DarkPalette;
+  };
+  company: {
+    name: string;
+    logoUrl: string;
+    logoDarkUrl: string; // Optional variant shown when the client renders in dark mode
+    websiteUrl: string;
+  };
+  sections: Section[]; // Email body, top to bottom
+  footer: {
+    text: string;
+    address: string;
+    unsubscribeUrl: string; // Required for bulk mail; a URL, mailto: or ESP merge tag such as *|UNSUB|*
+    unsubscribeOneClick: boolean; // The unsubscribe URL accepts RFC 8058 one-click POSTs
+    preferencesUrl: string;
+    viewInBrowserUrl: string;
+    socialLinks: SocialLink[];
+  };
+  output: {
+    outlookSafe: boolean; // Adds MSO ghost tables, VML buttons and Outlook resets
+    language: string; // BCP 47 tag for <html lang>, e.g. "en" or "de-CH"; screen readers pick their voice from it
+  };
+  tracking: LinkTracking;
+  mergeTags: MergeTagSettings;
+  exportProfiles: ExportProfile[];
+};
+
+// A named campaign persisted in the project library
+export type SavedProject = {
+  id: string;
+  name: string;
+  schemaVersion: number; // EmailConfig shape the config was saved with
+  createdAt: number;
+  updatedAt: number;
+  config: EmailConfig;
+};
+
+// A stored project that no longer migrates or validates. Its record is written
+// back untouched, so it survives until repaired by hand or deleted.
+export type UnreadableProject = {
+  id: string;
+  name: string;
+  error: string;
+  record: unknown; // as found in storage
+};
+
+// Portable JSON form of a campaign, used for import/export
+export type EmailConfigDocument = {
+  schemaVersion: number;
+  name: string;
+  config: EmailConfig;
+};
+
+// Parts of the generated email that tooling can attribute markup to
+export type EmailSection = 'document' | SectionType;
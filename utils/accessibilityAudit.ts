@@ -0,0 +1,176 @@
+import { EmailConfig } from '../types';
+import { LintLocation, createLocator } from './compatLint';
+
+// --- Accessibility Audit ---
+
+// Checks generated HTML (and the theme colours behind it) for problems screen
+// reader users and readers with images off run into. Findings don't block output.
+
+export type AuditSeverity = 'error' | 'warning';
+
+export type AccessibilityIssue = {
+  ruleId: string;
+  severity: AuditSeverity;
+  message: string;
+  location: LintLocation;
+  occurrences: number;
+};
+
+// Below this, body copy is hard to read on phones; 0 and 1px are layout tricks, not text
+const MIN_FONT_SIZE = 12;
+
+// WCAG 2.1 AA for normal-size text
+const MIN_CONTRAST = 4.5;
+
+// Link labels that say nothing once read out of context, as screen readers list them
+const GENERIC_LINK_TEXT = /^(view details|details|buy now|shop now|click here|here|learn more|read more|more|view|see more|go)\W*$/i;
+
+// --- Colour Contrast ---
+
+const parseHex = (color: string) => {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16));
+};
+
+const luminance = (rgb: number[]) => {
+  const [r, g, b] = rgb.map((value) => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// WCAG contrast ratio between two hex colours, or null when either can't be parsed
+export const contrastRatio = (foreground: string, background: string) => {
+  const a = parseHex(foreground);
+  const b = parseHex(background);
+  if (!a || !b) return null;
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Every pairing of theme colours the generator actually renders
+const contrastPairs = (config: EmailConfig) => {
+  const { theme } = config;
+  const pairs = [
+    { text: 'theme.textColor', color: theme.textColor, on: 'the white cards', background: '#ffffff' },
+    { text: 'theme.textColor', color: theme.textColor, on: 'theme.backgroundColor', background: theme.backgroundColor },
+    { text: 'theme.primaryColor (prices and links)', color: theme.primaryColor, on: 'white', background: '#ffffff' },
+    { text: 'White button text', color: '#ffffff', on: 'theme.primaryColor', background: theme.primaryColor },
+    { text: 'theme.accentColor (discounts)', color: theme.accentColor, on: 'white', background: '#ffffff' },
+  ];
+  if (theme.dark.enabled) {
+    pairs.push(
+      { text: 'theme.dark.textColor', color: theme.dark.textColor, on: 'theme.dark.surfaceColor', background: theme.dark.surfaceColor },
+      { text: 'theme.dark.mutedTextColor', color: theme.dark.mutedTextColor, on: 'theme.dark.surfaceColor', background: theme.dark.surfaceColor },
+      { text: 'theme.dark.primaryColor', color: theme.dark.primaryColor, on: 'theme.dark.surfaceColor', background: theme.dark.surfaceColor },
+    );
+  }
+  return pairs;
+};
+
+// --- Auditing ---
+
+const TAG = /<(\/?)([a-z][a-z0-9]*)\b([^>]*)>/gi;
+const LINK = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+// The dark logo variant repeats the light one for the same reader, so it shares its alt text
+const DARK_VARIANT = /class="logo-dark"[^>]*>\s*$/;
+
+const attributeValue = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i'))?.[1];
+
+const textContent = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&rarr;/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Audits generated HTML. Findings are attributed to the section/product
+ * marker that precedes them and merged per rule, message and location.
+ */
+export const auditAccessibility = (html: string, config: EmailConfig): AccessibilityIssue[] => {
+  const locate = createLocator(html);
+  const issues = new Map<string, AccessibilityIssue>();
+  const report = (ruleId: string, severity: AuditSeverity, message: string, position: number) => {
+    const location = locate(position);
+    const key = `${ruleId}|${message}|${location.sectionIndex ?? ''}|${location.productIndex ?? ''}`;
+    const existing = issues.get(key);
+    if (existing) existing.occurrences++;
+    else issues.set(key, { ruleId, severity, message, location, occurrences: 1 });
+  };
+
+  contrastPairs(config).forEach(({ text, color, on, background }) => {
+    const ratio = contrastRatio(color, background);
+    if (ratio !== null && ratio < MIN_CONTRAST) {
+      report('contrast', 'warning', `${text} on ${on} has a contrast ratio of ${ratio.toFixed(1)}:1; WCAG AA asks for ${MIN_CONTRAST}:1`, 0);
+    }
+  });
+
+  if (!/<html\b[^>]*\blang="[^"]+"/i.test(html)) {
+    report('html-lang', 'error', 'The document has no lang attribute, so screen readers may read it in the wrong language', 0);
+  }
+
+  const altTexts = new Map<string, Set<string>>();
+  let linkDepth = 0;
+  for (const match of html.matchAll(TAG)) {
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    const position = match.index ?? 0;
+
+    if (name === 'a') linkDepth = Math.max(0, linkDepth + (closing ? -1 : 1));
+    if (closing) continue;
+
+    if (name === 'table' && !attributeValue(attributes, 'role')) {
+      report('table-role', 'warning', 'Layout table without role="presentation"; screen readers announce its rows and columns', position);
+    }
+
+    if (name === 'img') {
+      const alt = attributeValue(attributes, 'alt');
+      const isPixel = attributeValue(attributes, 'width') === '1' && attributeValue(attributes, 'height') === '1';
+      if (alt === undefined) {
+        report('img-alt-missing', 'error', 'Image has no alt attribute; screen readers read out its file name instead', position);
+      } else if (!alt.trim() && linkDepth > 0 && !isPixel) {
+        report('img-alt-missing', 'error', 'Linked image has empty alt text, so the link has no name', position);
+      } else if (alt.trim() && !DARK_VARIANT.test(html.slice(Math.max(0, position - 120), position))) {
+        const key = alt.trim().toLowerCase();
+        const sources = altTexts.get(key) ?? new Set<string>();
+        sources.add(attributeValue(attributes, 'src') ?? '');
+        altTexts.set(key, sources);
+        if (sources.size > 1) {
+          report('img-alt-duplicate', 'warning', `Alt text "${alt.trim()}" also describes a different image; say what each one shows`, position);
+        }
+      }
+    }
+
+    const style = attributeValue(attributes, 'style') ?? '';
+    const fontSize = style.match(/(?:^|;)\s*font-size\s*:\s*([\d.]+)px/i);
+    const hidden = /display\s*:\s*none|mso-hide\s*:\s*all/i.test(style);
+    if (fontSize && !hidden && Number(fontSize[1]) > 1 && Number(fontSize[1]) < MIN_FONT_SIZE) {
+      report('font-size', 'warning', `Text set at ${fontSize[1]}px is hard to read; use at least ${MIN_FONT_SIZE}px`, position);
+    }
+  }
+
+  for (const match of html.matchAll(LINK)) {
+    const [, attributes, content] = match;
+    const position = match.index ?? 0;
+    const label = (attributeValue(attributes, 'aria-label') ?? '').trim();
+    const visible = textContent(content);
+    const imageAlts = Array.from(content.matchAll(/<img\b[^>]*\balt="([^"]+)"/gi), (m) => m[1].trim()).filter(Boolean);
+    if (label && !GENERIC_LINK_TEXT.test(label)) continue;
+    if (!visible && imageAlts.length === 0) {
+      if (!/<img\b/i.test(content)) report('link-name', 'error', 'Link has no text, so screen readers announce only its URL', position);
+    } else if (GENERIC_LINK_TEXT.test(visible || imageAlts.join(' '))) {
+      report('link-text', 'warning', `"${visible}" doesn't say where the link goes; name the product or destination`, position);
+    }
+  }
+
+  return Array.from(issues.values());
+};
@@ -0,0 +1,265 @@
+import { EmailSection, SectionType } from '../types';
+
+// --- Client Support Table ---
+
+export type EmailClient = 'outlook' | 'gmail' | 'appleMail' | 'yahoo';
+
+export const EMAIL_CLIENTS: { id: EmailClient; label: string }[] = [
+  { id: 'outlook', label: 'Outlook (Windows)' },
+  { id: 'gmail', label: 'Gmail' },
+  { id: 'appleMail', label: 'Apple Mail' },
+  { id: 'yahoo', label: 'Yahoo Mail' },
+];
+
+// 'partial' = supported in some versions/apps, or with quirks worth knowing about
+export type Support = 'yes' | 'partial' | 'no';
+
+type Tag = {
+  name: string;
+  attributes: string;
+  style: string;
+};
+
+type CompatRule = {
+  id: string;
+  feature: string;
+  support: Record<EmailClient, Support>;
+  advice: string;
+  matches: (tag: Tag) => boolean;
+  // The inline declaration clients without support drop, so the preview can emulate them
+  declaration?: { property: string; value?: RegExp };
+};
+
+const hasDeclaration = (style: string, property: string, value?: RegExp) => {
+  const pattern = new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i');
+  const match = style.match(pattern);
+  return Boolean(match) && (!value || value.test(match[1].trim()));
+};
+
+const getAttribute = (attributes: string, name: string) => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i'));
+  return match ? match[1] : '';
+};
+
+// Based on caniemail.com data for current desktop/webmail/mobile app versions
+export const COMPAT_RULES: CompatRule[] = [
+  {
+    id: 'display-flex',
+    feature: 'display: flex',
+    support: { outlook: 'no', gmail: 'partial', appleMail: 'yes', yahoo: 'partial' },
+    advice: 'Lay items out with a table row or inline-block elements instead.',
+    matches: (tag) => hasDeclaration(tag.style, 'display', /^(inline-)?flex\b/i),
+    declaration: { property: 'display', value: /^(inline-)?flex\b/i },
+  },
+  {
+    id: 'gap',
+    feature: 'gap',
+    support: { outlook: 'no', gmail: 'no', appleMail: 'yes', yahoo: 'no' },
+    advice: 'Use padding or margin on the children for spacing.',
+    matches: (tag) => hasDeclaration(tag.style, '(?:row-|column-)?gap'),
+    declaration: { property: '(?:row-|column-)?gap' },
+  },
+  {
+    id: 'object-fit',
+    feature: 'object-fit',
+    support: { outlook: 'no', gmail: 'no', appleMail: 'yes', yahoo: 'no' },
+    advice: 'Crop images to the target aspect ratio before uploading them.',
+    matches: (tag) => hasDeclaration(tag.style, 'object-fit'),
+    declaration: { property: 'object-fit' },
+  },
+  {
+    id: 'aspect-ratio',
+    feature: 'aspect-ratio',
+    support: { outlook: 'no', gmail: 'no', appleMail: 'yes', yahoo: 'no' },
+    advice: 'Set explicit width/height attributes or pre-crop the image.',
+    matches: (tag) => hasDeclaration(tag.style, 'aspect-ratio'),
+    declaration: { property: 'aspect-ratio' },
+  },
+  {
+    id: 'border-radius',
+    feature: 'border-radius',
+    support: { outlook: 'no', gmail: 'yes', appleMail: 'yes', yahoo: 'yes' },
+    advice: 'Outlook renders square corners; make sure the design still works without them.',
+    matches: (tag) => hasDeclaration(tag.style, 'border-radius', /^(?!0(px)?$)/),
+    declaration: { property: 'border-radius' },
+  },
+  {
+    id: 'overflow-hidden-table',
+    feature: 'overflow: hidden on tables',
+    support: { outlook: 'no', gmail: 'partial', appleMail: 'yes', yahoo: 'partial' },
+    advice: 'Rounded card corners won\'t clip their images; round the image itself or drop the radius.',
+    matches: (tag) => tag.name === 'table' && hasDeclaration(tag.style, 'overflow', /^hidden/i),
+    declaration: { property: 'overflow' },
+  },
+  {
+    id: 'max-width',
+    feature: 'max-width',
+    support: { outlook: 'no', gmail: 'yes', appleMail: 'yes', yahoo: 'yes' },
+    advice: 'Also set a fixed width attribute so Outlook has a size to use.',
+    matches: (tag) => hasDeclaration(tag.style, 'max-width') && !getAttribute(tag.attributes, 'width'),
+    declaration: { property: 'max-width' },
+  },
+  {
+    id: 'heading-margins',
+    feature: 'default heading margins',
+    support: { outlook: 'partial', gmail: 'partial', appleMail: 'partial', yahoo: 'partial' },
+    advice: 'Headings without an inline margin pick up each client\'s own default spacing.',
+    matches: (tag) => /^h[1-6]$/.test(tag.name) && !hasDeclaration(tag.style, 'margin'),
+  },
+  {
+    id: 'link-padding',
+    feature: 'padding on links (buttons)',
+    support: { outlook: 'no', gmail: 'yes', appleMail: 'yes', yahoo: 'yes' },
+    advice: 'Outlook drops the padding, shrinking buttons to their text. Use a padded table cell or VML button.',
+    matches: (tag) => tag.name === 'a' && hasDeclaration(tag.style, 'padding'),
+    declaration: { property: 'padding' },
+  },
+  {
+    id: 'svg-image',
+    feature: 'SVG images',
+    support: { outlook: 'no', gmail: 'no', appleMail: 'yes', yahoo: 'partial' },
+    advice: 'Export logos as PNG.',
+    matches: (tag) => tag.name === 'img' && /\.svg(?:[?#]|$)|^data:image\/svg/i.test(getAttribute(tag.attributes, 'src')),
+  },
+  {
+    id: 'webp-image',
+    feature: 'WebP images',
+    support: { outlook: 'no', gmail: 'yes', appleMail: 'yes', yahoo: 'yes' },
+    advice: 'Use JPEG or PNG for the widest support.',
+    matches: (tag) => tag.name === 'img' && /\.webp(?:[?#]|$)|^data:image\/webp/i.test(getAttribute(tag.attributes, 'src')),
+  },
+  {
+    id: 'position',
+    feature: 'position',
+    support: { outlook: 'no', gmail: 'no', appleMail: 'yes', yahoo: 'no' },
+    advice: 'Avoid absolute/relative positioning; stack content with tables.',
+    matches: (tag) => hasDeclaration(tag.style, 'position', /^(absolute|relative|fixed|sticky)/i),
+    declaration: { property: 'position' },
+  },
+  {
+    id: 'style-block',
+    feature: 'embedded <style> blocks',
+    support: { outlook: 'yes', gmail: 'partial', appleMail: 'yes', yahoo: 'partial' },
+    advice: 'Gmail with non-Google accounts strips <style>; keep every essential style inline as well.',
+    matches: (tag) => tag.name === 'style',
+  },
+  {
+    id: 'background-image',
+    feature: 'CSS background images',
+    support: { outlook: 'no', gmail: 'partial', appleMail: 'yes', yahoo: 'yes' },
+    advice: 'Always pair background images with a solid background-color fallback.',
+    matches: (tag) => hasDeclaration(tag.style, 'background(?:-image)?', /url\(/i),
+    declaration: { property: 'background(?:-image)?', value: /url\(/i },
+  },
+];
+
+// Rules a client has no support for at all on one tag; the preview uses these to emulate it
+export const unsupportedRules = (name: string, attributes: string, client: EmailClient) => {
+  const tag: Tag = { name: name.toLowerCase(), attributes, style: getAttribute(attributes, 'style') };
+  return COMPAT_RULES.filter((rule) => rule.support[client] === 'no' && rule.matches(tag));
+};
+
+// --- Linting ---
+
+export type LintLocation = {
+  section: EmailSection;
+  sectionIndex?: number; // Position in config.sections
+  productIndex?: number; // Position within that section's products
+};
+
+export type CompatWarning = {
+  ruleId: string;
+  feature: string;
+  advice: string;
+  affected: { client: EmailClient; support: Exclude<Support, 'yes'> }[];
+  location: LintLocation;
+  occurrences: number;
+};
+
+const MARKER = /<!--\s*(section|product):([a-z0-9:-]+)\s*-->/gi;
+const TAG = /<([a-z][a-z0-9]*)\b([^>]*)>/gi;
+// Conditional comments: markup only Outlook reads, and markup hidden from it
+export const MSO_ONLY = /<!--\[if mso\]>[\s\S]*?<!\[endif\]-->/gi;
+export const NOT_MSO = /<!--\[if !mso\]><!-->[\s\S]*?<!--<!\[endif\]-->/gi;
+
+const findRanges = (html: string, pattern: RegExp) =>
+  Array.from(html.matchAll(pattern), (m) => [m.index ?? 0, (m.index ?? 0) + m[0].length]);
+
+/**
+ * Maps a position in generated HTML to the section/product it was rendered
+ * from. Section markers read "<index>:<type>"; product markers nest inside
+ * the last section.
+ */
+export const createLocator = (html: string) => {
+  const markers = Array.from(html.matchAll(MARKER), (m) => ({
+    index: m.index ?? 0,
+    kind: m[1].toLowerCase(),
+    value: m[2],
+  }));
+
+  return (position: number): LintLocation => {
+    let section: LintLocation = { section: 'document' };
+    let location = section;
+    for (const marker of markers) {
+      if (marker.index > position) break;
+      if (marker.kind === 'product') {
+        location = { ...section, productIndex: Number(marker.value) };
+      } else {
+        const [index, type] = marker.value.split(':');
+        section = { section: type as SectionType, sectionIndex: Number(index) };
+        location = section;
+      }
+    }
+    return location;
+  };
+};
+
+/**
+ * Scans generated HTML against COMPAT_RULES. Findings are attributed to the
+ * section/product marker that precedes them and merged per rule + location.
+ * Markup inside MSO conditional comments only counts for the clients that read it.
+ */
+export const lintEmailHtml = (html: string): CompatWarning[] => {
+  const msoOnly = findRanges(html, MSO_ONLY);
+  const notMso = findRanges(html, NOT_MSO);
+  const within = (ranges: number[][], position: number) => ranges.some(([start, end]) => position >= start && position < end);
+  const audienceAt = (position: number) => {
+    if (within(msoOnly, position)) return EMAIL_CLIENTS.filter(({ id }) => id === 'outlook');
+    if (within(notMso, position)) return EMAIL_CLIENTS.filter(({ id }) => id !== 'outlook');
+    return EMAIL_CLIENTS;
+  };
+
+  const locate = createLocator(html);
+
+  const warnings = new Map<string, CompatWarning>();
+  for (const match of html.matchAll(TAG)) {
+    const attributes = match[2];
+    const tag: Tag = {
+      name: match[1].toLowerCase(),
+      attributes,
+      style: getAttribute(attributes, 'style'),
+    };
+    const audience = audienceAt(match.index ?? 0);
+    COMPAT_RULES.filter((rule) => rule.matches(tag)).forEach((rule) => {
+      const affected = audience.filter(({ id }) => rule.support[id] !== 'yes');
+      if (affected.length === 0) return;
+      const location = locate(match.index ?? 0);
+      const key = `${rule.id}|${location.sectionIndex ?? ''}|${location.productIndex ?? ''}`;
+      const existing = warnings.get(key);
+      if (existing) {
+        existing.occurrences++;
+        return;
+      }
+      warnings.set(key, {
+        ruleId: rule.id,
+        feature: rule.feature,
+        advice: rule.advice,
+        affected: affected.map(({ id }) => ({ client: id, support: rule.support[id] as Exclude<Support, 'yes'> })),
+        location,
+        occurrences: 1,
+      });
+    });
+  }
+
+  return Array.from(warnings.values());
+};
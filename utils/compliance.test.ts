@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { EmailConfig, MergeTagDialect } from '../types';
+import { hasUnsubscribe } from './compliance';
+
+const withUnsubscribe = (unsubscribeUrl: string, dialect: MergeTagDialect = 'none'): EmailConfig => ({
+  ...INITIAL_CONFIG,
+  footer: { ...INITIAL_CONFIG.footer, unsubscribeUrl },
+  mergeTags: { ...INITIAL_CONFIG.mergeTags, dialect },
+});
+
+test('only a link or merge tag counts as an unsubscribe link', () => {
+  assert.ok(hasUnsubscribe(withUnsubscribe('https://example.com/unsubscribe')));
+  assert.ok(hasUnsubscribe(withUnsubscribe('mailto:leave@example.com')));
+  assert.ok(hasUnsubscribe(withUnsubscribe('*|UNSUB|*', 'mailchimp')));
+  ['', '#', 'javascript:alert(1)', 'unsubscribe', '*|UNSUB|*'].forEach((url) => assert.ok(!hasUnsubscribe(withUnsubscribe(url)), url));
+});
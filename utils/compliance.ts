@@ -0,0 +1,53 @@
+import { EmailConfig, SocialNetwork } from '../types';
+import { mergeTagPattern } from './mergeTags';
+
+// --- Social Links ---
+
+export const SOCIAL_NETWORKS: { id: SocialNetwork; label: string }[] = [
+  { id: 'facebook', label: 'Facebook' },
+  { id: 'instagram', label: 'Instagram' },
+  { id: 'x', label: 'X' },
+  { id: 'linkedin', label: 'LinkedIn' },
+  { id: 'youtube', label: 'YouTube' },
+  { id: 'tiktok', label: 'TikTok' },
+];
+
+export const socialLabel = (network: SocialNetwork) => SOCIAL_NETWORKS.find((n) => n.id === network)?.label ?? network;
+
+// --- Unsubscribe ---
+
+export const MISSING_UNSUBSCRIBE =
+  'This email has no unsubscribe link. CAN-SPAM, GDPR and the Gmail/Yahoo bulk-sender rules require one.';
+
+// The unsubscribe link only reaches readers through the footer section
+export const getUnsubscribeUrl = (config: EmailConfig) =>
+  config.sections.some((section) => section.type === 'footer') ? config.footer.unsubscribeUrl.trim() : '';
+
+const UNSUBSCRIBE_LINK = /^(https?:\/\/|mailto:)\S+$/i;
+
+// An http(s) or mailto: link, or nothing but the ESP's own merge tag (*|UNSUB|*).
+// "#", "javascript:" or a bare word would leave readers no way out.
+export const hasUnsubscribe = (config: EmailConfig) => {
+  const url = getUnsubscribeUrl(config);
+  const tag = mergeTagPattern(config.mergeTags);
+  return UNSUBSCRIBE_LINK.test(url) || (url !== '' && tag !== null && url.replace(tag, '') === '');
+};
+
+// Compliance links must reach the ESP/endpoint exactly as entered, so link tracking skips them
+export const getComplianceUrls = (config: EmailConfig) =>
+  [config.footer.unsubscribeUrl, config.footer.preferencesUrl, config.footer.viewInBrowserUrl]
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+/**
+ * Value for the List-Unsubscribe header (RFC 2369), or '' when the unsubscribe
+ * link is not a literal https/mailto URL. ESP merge tags are left to the ESP,
+ * which adds its own header.
+ */
+export const listUnsubscribeValue = (config: EmailConfig) => {
+  const url = getUnsubscribeUrl(config);
+  return UNSUBSCRIBE_LINK.test(url) ? `<${url}>` : '';
+};
+
+// RFC 8058 one-click needs an https URL in List-Unsubscribe that accepts a POST
+export const supportsOneClick = (listUnsubscribe: string) => /<https:\/\/[^>]+>/i.test(listUnsubscribe);
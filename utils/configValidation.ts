@@ -0,0 +1,392 @@
+import { EmailConfig, EmailConfigDocument, ExportProfile, LinkTracking, MergeTagDialect, Product, ProductTemplate, Section, SectionType, SocialNetwork } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateConfig } from './projectStorage';
+import { isValidCustomDelimiter } from './mergeTags';
+
+// --- Allowed Values ---
+
+const TEMPLATES: ProductTemplate[] = ['classic', 'modern', 'banner'];
+// Fields each section type carries besides id and type
+const SECTION_KEYS: Record<SectionType, string[]> = {
+  header: [],
+  hero: ['hero', 'hidden'],
+  products: ['template', 'products'],
+  text: ['text', 'align'],
+  divider: [],
+  coupon: ['coupon'],
+  footer: [],
+};
+const SECTION_TYPES = Object.keys(SECTION_KEYS) as SectionType[];
+const TEXT_ALIGNS: Extract<Section, { type: 'text' }>['align'][] = ['left', 'center'];
+const IMAGE_SIZES: EmailConfig['layout']['productImageSize'][] = ['large', 'medium', 'small'];
+const PRICING_MODES: Product['pricingMode'][] = ['standard', 'discount', 'hidden'];
+const RENDER_MODES: Product['renderMode'][] = ['html', 'image-only'];
+const PRODUCT_CONTENT_MODES: LinkTracking['productContent'][] = ['index', 'id'];
+const MERGE_TAG_DIALECTS: MergeTagDialect[] = ['none', 'mailchimp', 'handlebars', 'mailgun', 'custom'];
+const SOCIAL_NETWORKS: SocialNetwork[] = ['facebook', 'instagram', 'x', 'linkedin', 'youtube', 'tiktok'];
+
+export const MIN_CONTENT_WIDTH = 400;
+export const MAX_CONTENT_WIDTH = 800;
+export const MAX_GRID_COLUMNS = 4;
+export const MAX_GRID_GUTTER = 40;
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+// BCP 47 shape only: primary language plus optional subtags
+const LANGUAGE_TAG = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+// Bare host names, no scheme or path; rewrites may carry a port, allow-list entries a "*." prefix.
+// Blank entries are allowed and ignored, like a row just added in the editor.
+const REWRITE_HOST = /^[a-z0-9-]+(?:\.[a-z0-9-]+)*(?::\d{1,5})?$/i;
+const ALLOWED_HOST = /^(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*$/i;
+const CACHE_BUST_PARAM = /^[a-z0-9_.-]+=[a-z0-9_.~-]*$/i;
+
+// --- Validation ---
+
+export type ValidationIssue = {
+  path: string; // e.g. "products[2].pricingMode"
+  message: string;
+};
+
+// `config` is only set when `issues` is empty
+export type ValidationResult = {
+  config: EmailConfig | null;
+  issues: ValidationIssue[];
+};
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'nothing (field is missing)';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+// Collects issues while walking the config so every problem is reported at once
+const createChecker = () => {
+  const issues: ValidationIssue[] = [];
+  const fail = (path: string, message: string) => issues.push({ path: path || '(root)', message });
+
+  const object = (value: unknown, path: string, keys: string[]): value is Record<string, unknown> => {
+    if (!isRecord(value)) {
+      fail(path, `must be an object, got ${describe(value)}`);
+      return false;
+    }
+    Object.keys(value)
+      .filter((key) => !keys.includes(key))
+      .forEach((key) => fail(join(path, key), 'is not a known field'));
+    return true;
+  };
+
+  const string = (obj: Record<string, unknown>, key: string, path: string) => {
+    if (typeof obj[key] !== 'string') fail(join(path, key), `must be a string, got ${describe(obj[key])}`);
+  };
+
+  const boolean = (obj: Record<string, unknown>, key: string, path: string) => {
+    if (typeof obj[key] !== 'boolean') fail(join(path, key), `must be true or false, got ${describe(obj[key])}`);
+  };
+
+  const integer = (obj: Record<string, unknown>, key: string, path: string, min: number, max: number) => {
+    const value = obj[key];
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      fail(join(path, key), `must be a whole number, got ${describe(value)}`);
+    } else if (value < min || value > max) {
+      fail(join(path, key), `must be between ${min} and ${max}, got ${value}`);
+    }
+  };
+
+  const oneOf = (obj: Record<string, unknown>, key: string, path: string, allowed: readonly string[]) => {
+    if (!allowed.includes(obj[key] as string)) {
+      fail(join(path, key), `must be one of ${allowed.map((v) => `"${v}"`).join(', ')}, got ${describe(obj[key])}`);
+    }
+  };
+
+  const color = (obj: Record<string, unknown>, key: string, path: string) => {
+    const value = obj[key];
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+      fail(join(path, key), `must be a hex color like "#3b82f6", got ${describe(value)}`);
+    }
+  };
+
+  return { issues, fail, object, string, boolean, integer, oneOf, color };
+};
+
+const PRODUCT_KEYS: (keyof Product)[] = [
+  'id', 'name', 'price', 'discountText', 'pricingMode', 'description',
+  'imageUrl', 'imageAlt', 'link', 'brandName', 'brandLogoUrl', 'brandLogoDarkUrl', 'renderMode', 'spanFullRow',
+];
+
+export const validateProduct = (value: unknown, path: string): ValidationIssue[] => {
+  const check = createChecker();
+  if (check.object(value, path, PRODUCT_KEYS)) {
+    ['id', 'name', 'price', 'discountText', 'description', 'imageUrl', 'imageAlt', 'link', 'brandName', 'brandLogoUrl', 'brandLogoDarkUrl']
+      .forEach((key) => check.string(value, key, path));
+    check.oneOf(value, 'pricingMode', path, PRICING_MODES);
+    check.oneOf(value, 'renderMode', path, RENDER_MODES);
+    check.boolean(value, 'spanFullRow', path);
+    if (value.id === '') check.fail(join(path, 'id'), 'must not be empty');
+  }
+  return check.issues;
+};
+
+export const validateEmailConfig = (value: unknown): ValidationResult => {
+  const check = createChecker();
+  const topLevel: (keyof EmailConfig)[] = ['subject', 'preheader', 'layout', 'theme', 'company', 'sections', 'footer', 'output', 'tracking', 'mergeTags', 'exportProfiles'];
+
+  if (check.object(value, '', topLevel)) {
+    check.string(value, 'subject', '');
+    check.string(value, 'preheader', '');
+
+    if (check.object(value.layout, 'layout', ['contentWidth', 'productImageSize', 'columns', 'gutter'])) {
+      check.integer(value.layout, 'contentWidth', 'layout', MIN_CONTENT_WIDTH, MAX_CONTENT_WIDTH);
+      check.oneOf(value.layout, 'productImageSize', 'layout', IMAGE_SIZES);
+      check.integer(value.layout, 'columns', 'layout', 1, MAX_GRID_COLUMNS);
+      check.integer(value.layout, 'gutter', 'layout', 0, MAX_GRID_GUTTER);
+    }
+
+    const themeColors = ['primaryColor', 'backgroundColor', 'textColor', 'accentColor'];
+    const theme = value.theme;
+    if (check.object(theme, 'theme', [...themeColors, 'dark'])) {
+      themeColors.forEach((key) => check.color(theme, key, 'theme'));
+      const darkColors = ['backgroundColor', 'surfaceColor', 'textColor', 'mutedTextColor', 'primaryColor', 'borderColor'];
+      if (check.object(theme.dark, 'theme.dark', ['enabled', ...darkColors])) {
+        check.boolean(theme.dark, 'enabled', 'theme.dark');
+        darkColors.forEach((key) => check.color(theme.dark as Record<string, unknown>, key, 'theme.dark'));
+      }
+    }
+
+    const companyKeys = ['name', 'logoUrl', 'logoDarkUrl', 'websiteUrl'];
+    if (check.object(value.company, 'company', companyKeys)) {
+      companyKeys.forEach((key) => check.string(value.company as Record<string, unknown>, key, 'company'));
+    }
+
+    if (!Array.isArray(value.sections)) {
+      check.fail('sections', `must be an array, got ${describe(value.sections)}`);
+    } else {
+      const seenSectionIds = new Set<string>();
+      const seenProductIds = new Set<string>();
+      value.sections.forEach((section, index) => {
+        const path = `sections[${index}]`;
+        if (!isRecord(section)) {
+          check.fail(path, `must be an object, got ${describe(section)}`);
+          return;
+        }
+        if (!SECTION_TYPES.includes(section.type as SectionType)) {
+          check.oneOf(section, 'type', path, SECTION_TYPES);
+          return;
+        }
+        if (!check.object(section, path, ['id', 'type', ...SECTION_KEYS[section.type as SectionType]])) return;
+
+        check.string(section, 'id', path);
+        if (section.id === '') check.fail(join(path, 'id'), 'must not be empty');
+        if (typeof section.id === 'string' && section.id !== '') {
+          if (seenSectionIds.has(section.id)) check.fail(join(path, 'id'), `duplicates another section id "${section.id}"`);
+          seenSectionIds.add(section.id);
+        }
+
+        if (section.type === 'hero') {
+          const heroKeys = ['imageUrl', 'imageAlt', 'title', 'subtitle', 'ctaText', 'ctaLink'];
+          if (check.object(section.hero, join(path, 'hero'), heroKeys)) {
+            heroKeys.forEach((key) => check.string(section.hero as Record<string, unknown>, key, join(path, 'hero')));
+          }
+          check.boolean(section, 'hidden', path);
+        } else if (section.type === 'coupon') {
+          const couponKeys = ['title', 'code', 'description', 'ctaText', 'ctaLink'];
+          if (check.object(section.coupon, join(path, 'coupon'), couponKeys)) {
+            couponKeys.forEach((key) => check.string(section.coupon as Record<string, unknown>, key, join(path, 'coupon')));
+          }
+        } else if (section.type === 'text') {
+          check.string(section, 'text', path);
+          check.oneOf(section, 'align', path, TEXT_ALIGNS);
+        } else if (section.type === 'products') {
+          check.oneOf(section, 'template', path, TEMPLATES);
+          if (!Array.isArray(section.products)) {
+            check.fail(join(path, 'products'), `must be an array, got ${describe(section.products)}`);
+          } else {
+            // Product ids stay unique across groups so they can be moved between them
+            section.products.forEach((product, productIndex) => {
+              const productPath = `${path}.products[${productIndex}]`;
+              check.issues.push(...validateProduct(product, productPath));
+              if (isRecord(product) && typeof product.id === 'string') {
+                if (seenProductIds.has(product.id)) check.fail(`${productPath}.id`, `duplicates another product id "${product.id}"`);
+                seenProductIds.add(product.id);
+              }
+            });
+          }
+        }
+      });
+    }
+
+    const footer = value.footer;
+    const footerStrings = ['text', 'address', 'unsubscribeUrl', 'preferencesUrl', 'viewInBrowserUrl'];
+    if (check.object(footer, 'footer', [...footerStrings, 'unsubscribeOneClick', 'socialLinks'])) {
+      footerStrings.forEach((key) => check.string(footer, key, 'footer'));
+      check.boolean(footer, 'unsubscribeOneClick', 'footer');
+      if (!Array.isArray(footer.socialLinks)) {
+        check.fail('footer.socialLinks', `must be an array, got ${describe(footer.socialLinks)}`);
+      } else {
+        footer.socialLinks.forEach((link, index) => {
+          const path = `footer.socialLinks[${index}]`;
+          if (check.object(link, path, ['network', 'url'])) {
+            check.oneOf(link, 'network', path, SOCIAL_NETWORKS);
+            check.string(link, 'url', path);
+          }
+        });
+      }
+    }
+
+    if (check.object(value.output, 'output', ['outlookSafe', 'language'])) {
+      check.boolean(value.output, 'outlookSafe', 'output');
+      check.string(value.output, 'language', 'output');
+      if (typeof value.output.language === 'string' && !LANGUAGE_TAG.test(value.output.language)) {
+        check.fail('output.language', `must be a language tag like "en" or "de-CH", got ${describe(value.output.language)}`);
+      }
+    }
+
+    const tracking = value.tracking;
+    const trackingStrings = ['source', 'medium', 'campaign', 'redirectUrl', 'openPixelUrl'];
+    if (check.object(tracking, 'tracking', ['enabled', ...trackingStrings, 'productContent'])) {
+      check.boolean(tracking, 'enabled', 'tracking');
+      trackingStrings.forEach((key) => check.string(tracking, key, 'tracking'));
+      check.oneOf(tracking, 'productContent', 'tracking', PRODUCT_CONTENT_MODES);
+      if (typeof tracking.redirectUrl === 'string' && tracking.redirectUrl.trim()) {
+        if (!/^https?:\/\//i.test(tracking.redirectUrl.trim())) check.fail('tracking.redirectUrl', 'must start with http:// or https://');
+        if (!tracking.redirectUrl.includes('{url}')) check.fail('tracking.redirectUrl', 'must contain the {url} placeholder');
+      }
+      if (typeof tracking.openPixelUrl === 'string' && tracking.openPixelUrl.trim() && !/^https?:\/\//i.test(tracking.openPixelUrl.trim())) {
+        check.fail('tracking.openPixelUrl', 'must start with http:// or https://');
+      }
+    }
+
+    const mergeTags = value.mergeTags;
+    if (check.object(mergeTags, 'mergeTags', ['dialect', 'customOpen', 'customClose', 'samples'])) {
+      check.oneOf(mergeTags, 'dialect', 'mergeTags', MERGE_TAG_DIALECTS);
+      check.string(mergeTags, 'customOpen', 'mergeTags');
+      check.string(mergeTags, 'customClose', 'mergeTags');
+      if (mergeTags.dialect === 'custom') {
+        ['customOpen', 'customClose'].forEach((key) => {
+          if (mergeTags[key] === '') check.fail(`mergeTags.${key}`, 'must not be empty for the custom dialect');
+          else if (typeof mergeTags[key] === 'string' && !isValidCustomDelimiter(mergeTags[key])) {
+            check.fail(`mergeTags.${key}`, 'must be symbols only, without letters, digits, ":" or "&"');
+          }
+        });
+      }
+      // Sample keys are whatever tags the campaign uses, so only the values are checked
+      if (!isRecord(mergeTags.samples)) {
+        check.fail('mergeTags.samples', `must be an object, got ${describe(mergeTags.samples)}`);
+      } else {
+        Object.keys(mergeTags.samples).forEach((key) => check.string(mergeTags.samples as Record<string, unknown>, key, 'mergeTags.samples'));
+      }
+    }
+
+    if (!Array.isArray(value.exportProfiles)) {
+      check.fail('exportProfiles', `must be an array, got ${describe(value.exportProfiles)}`);
+    } else {
+      const seenProfileIds = new Set<string>();
+      const profileKeys: (keyof ExportProfile)[] = ['id', 'name', 'hostRewrites', 'cacheBust', 'allowedAssetHosts'];
+      value.exportProfiles.forEach((profile, index) => {
+        const path = `exportProfiles[${index}]`;
+        if (!check.object(profile, path, profileKeys)) return;
+        ['id', 'name', 'cacheBust'].forEach((key) => check.string(profile, key, path));
+        ['id', 'name'].forEach((key) => {
+          if (profile[key] === '') check.fail(join(path, key), 'must not be empty');
+        });
+        if (typeof profile.id === 'string' && profile.id !== '') {
+          if (seenProfileIds.has(profile.id)) check.fail(join(path, 'id'), `duplicates another profile id "${profile.id}"`);
+          seenProfileIds.add(profile.id);
+        }
+        if (typeof profile.cacheBust === 'string' && profile.cacheBust.trim() && !CACHE_BUST_PARAM.test(profile.cacheBust.trim())) {
+          check.fail(join(path, 'cacheBust'), `must be a query parameter like "v=2024-06", got ${describe(profile.cacheBust)}`);
+        }
+
+        if (!Array.isArray(profile.hostRewrites)) {
+          check.fail(join(path, 'hostRewrites'), `must be an array, got ${describe(profile.hostRewrites)}`);
+        } else {
+          profile.hostRewrites.forEach((rewrite, rewriteIndex) => {
+            const rewritePath = `${path}.hostRewrites[${rewriteIndex}]`;
+            if (!check.object(rewrite, rewritePath, ['from', 'to'])) return;
+            ['from', 'to'].forEach((key) => {
+              check.string(rewrite, key, rewritePath);
+              if (typeof rewrite[key] === 'string' && rewrite[key].trim() && !REWRITE_HOST.test(rewrite[key].trim())) {
+                check.fail(join(rewritePath, key), `must be a host name like "cdn.example.com", got ${describe(rewrite[key])}`);
+              }
+            });
+          });
+        }
+
+        if (!Array.isArray(profile.allowedAssetHosts)) {
+          check.fail(join(path, 'allowedAssetHosts'), `must be an array, got ${describe(profile.allowedAssetHosts)}`);
+        } else {
+          profile.allowedAssetHosts.forEach((host, hostIndex) => {
+            const hostPath = `${path}.allowedAssetHosts[${hostIndex}]`;
+            if (typeof host !== 'string' || (host.trim() && !ALLOWED_HOST.test(host.trim()))) {
+              check.fail(hostPath, `must be a host name like "cdn.example.com" or "*.example.com", got ${describe(host)}`);
+            }
+          });
+        }
+      });
+    }
+  }
+
+  return {
+    config: check.issues.length > 0 ? null : (value as EmailConfig),
+    issues: check.issues,
+  };
+};
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map((issue) => `${issue.path}: ${issue.message}`).join('\n');
+
+// --- JSON Documents ---
+
+export const serializeConfigDocument = (name: string, config: EmailConfig) => {
+  const doc: EmailConfigDocument = { schemaVersion: CURRENT_SCHEMA_VERSION, name, config };
+  return JSON.stringify(doc, null, 2) + '\n';
+};
+
+export type ParsedDocument = ValidationResult & { name: string };
+
+const rejected = (path: string, message: string): ParsedDocument => ({
+  name: '',
+  config: null,
+  issues: [{ path, message }],
+});
+
+// Accepts an exported document or a bare EmailConfig object (assumed to be current schema)
+export const parseConfigDocument = (json: string, fallbackName = 'Imported Campaign'): ParsedDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    return rejected('(root)', `is not valid JSON: ${(err as Error).message}`);
+  }
+
+  if (!isRecord(data) || !('config' in data && 'schemaVersion' in data)) {
+    return { ...validateEmailConfig(data), name: fallbackName };
+  }
+
+  const version = data.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return rejected('schemaVersion', `must be a whole number, got ${describe(version)}`);
+  }
+  if (!isRecord(data.config)) {
+    return rejected('config', `must be an object, got ${describe(data.config)}`);
+  }
+
+  let migrated: EmailConfig;
+  try {
+    migrated = migrateConfig(data.config, version);
+  } catch (err) {
+    return rejected('schemaVersion', (err as Error).message);
+  }
+
+  const result = validateEmailConfig(migrated);
+  const nest = (path: string) => (path === '(root)' ? 'config' : `config.${path}`);
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : fallbackName,
+    config: result.config,
+    issues: result.issues.map((issue) => ({ ...issue, path: nest(issue.path) })),
+  };
+};
@@ -0,0 +1,605 @@
+import { CouponContent, DarkPalette, EmailConfig, HeroContent, Product, ProductSection, ProductTemplate, Section, SectionType } from '../types';
+import { INITIAL_CONFIG } from '../constants';
+import { escapeHtml, escapeAttr, isSafeImageUrl, isSafeLinkUrl, sanitizeUrl, sanitizeImageUrl, sanitizeColor, sanitizeRichText } from './htmlEscape';
+import { getEmailTitle, getProductSections } from './sections';
+import { applyLinkTracking } from './linkTracking';
+import { keepMergeTags } from './mergeTags';
+import { socialLabel } from './compliance';
+
+// --- Email Generator Functions ---
+
+// Pure string rendering: no React or DOM access, so it also runs under Node.
+
+// Location markers let tooling such as the compatibility linter trace markup back to its source
+export const sectionMarker = (index: number, type: SectionType) => `<!-- section:${index}:${type} -->`;
+export const productMarker = (index: number) => `<!-- product:${index} -->`;
+
+// Zero-width joiners and spaces that pad the preheader past the inbox preview length
+const PREHEADER_SPACER = '&#847;&zwnj;&nbsp;'.repeat(60);
+
+const BUTTON_SIZES = {
+  large: { paddingY: 12, paddingX: 24, fontSize: 16 },
+  medium: { paddingY: 10, paddingX: 20, fontSize: 14 },
+  small: { paddingY: 8, paddingX: 16, fontSize: 14 },
+};
+
+// Outlook desktop (Word engine) reset and 96 DPI lock, only read by MSO clients
+const MSO_HEAD = `<!--[if mso]>
+<noscript><xml><o:OfficeDocumentSettings><o:AllowPNG/><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml></noscript>
+<style>
+  table, td { border-collapse: collapse; mso-table-lspace: 0pt; mso-table-rspace: 0pt; }
+  img { -ms-interpolation-mode: bicubic; }
+  body, table, td, a, p, h1, h2, h3 { font-family: Arial, Helvetica, sans-serif; }
+  h1, h2, h3, p { margin: 0; }
+</style>
+<![endif]-->`;
+
+// Mobile overrides keyed off class hooks. Everything they change is also set
+// inline, so clients that strip <style> still get the desktop layout scaled down.
+const responsiveStyles = (contentWidth: number) => `<style>
+  @media only screen and (max-width: ${contentWidth + 20}px) {
+    .email-container { width: 100% !important; }
+    .content-pad { padding: 12px !important; }
+    .stack-column { display: block !important; width: 100% !important; box-sizing: border-box; text-align: left !important; }
+    .stack-gap { padding: 12px 0 0 0 !important; }
+    .stack-hide { display: none !important; }
+    .fluid-img { width: 100% !important; max-width: 100% !important; height: auto !important; }
+    .tap-button { display: block !important; padding: 14px 20px !important; font-size: 16px !important; text-align: center !important; }
+  }
+</style>`;
+
+// --- Image Sizing ---
+
+// The pixel-width helpers below are exported so the editor's "Recommended Image Cut"
+// hint matches the rendered sizes.
+
+type Layout = EmailConfig['layout'];
+
+// Padding around the product section, on each side
+const PRODUCTS_PADDING = 20;
+
+// Scale factor based on size setting
+const getScaleFactor = (layout: Layout) => {
+  if (layout.productImageSize === 'small') return 0.6;
+  if (layout.productImageSize === 'medium') return 0.8;
+  return 1.0;
+};
+
+// Grid images: one column's share of the product area, minus the gutter around the cell.
+// Full-row products get the whole product area.
+export const getGridImagePixelWidth = (layout: Layout, fullRow = false) => {
+  const areaWidth = layout.contentWidth - PRODUCTS_PADDING * 2;
+  const cellWidth = fullRow ? areaWidth : areaWidth / layout.columns;
+  return Math.round((cellWidth - layout.gutter) * getScaleFactor(layout));
+};
+
+// Banner images: Total Width - Padding
+export const getBannerImagePixelWidth = (layout: Layout) => {
+  let scale = getScaleFactor(layout);
+  if (layout.productImageSize === 'medium') scale = 0.85; // slightly different scale for banner
+  if (layout.productImageSize === 'small') scale = 0.7;
+  // Assuming full width but maybe some internal padding
+  return Math.round(layout.contentWidth * scale);
+};
+
+export const getListImagePixelWidth = (layout: Layout) => {
+  if (layout.productImageSize === 'small') return 100;
+  if (layout.productImageSize === 'medium') return 140;
+  return 180;
+};
+
+// Width a product's image is shown at in its template, for the editor's image checks
+export const getProductImagePixelWidth = (layout: Layout, template: ProductTemplate, product: Product) => {
+  if (template === 'classic') return getGridImagePixelWidth(layout, product.spanFullRow);
+  if (template === 'banner') return getBannerImagePixelWidth(layout);
+  return product.renderMode === 'image-only' ? layout.contentWidth - PRODUCTS_PADDING * 2 : getListImagePixelWidth(layout);
+};
+
+// Shared with the editor preview, which rewrites it to force the dark rendering
+export const DARK_MODE_QUERY = '@media (prefers-color-scheme: dark)';
+
+// Dark palette overrides keyed off dark-* class hooks. Apple Mail and Outlook for
+// iOS/Mac read the media query; Outlook.com marks the elements it recolors with
+// data-ogsc (text) and data-ogsb (backgrounds) instead.
+const darkModeStyles = (dark: DarkPalette) => {
+  const backgroundRules = [
+    `.dark-page { background-color: ${dark.backgroundColor} !important; }`,
+    `.dark-surface { background-color: ${dark.surfaceColor} !important; }`,
+    `.dark-button { background-color: ${dark.primaryColor} !important; }`,
+  ];
+  const colorRules = [
+    `.dark-text { color: ${dark.textColor} !important; }`,
+    `.dark-muted { color: ${dark.mutedTextColor} !important; }`,
+    `.dark-link { color: ${dark.primaryColor} !important; }`,
+    `.dark-border { border-color: ${dark.borderColor} !important; }`,
+  ];
+  return `<style>
+  :root { color-scheme: light dark; supported-color-schemes: light dark; }
+  ${DARK_MODE_QUERY} {
+    ${[...backgroundRules, ...colorRules].join('\n    ')}
+    .logo-light { display: none !important; }
+    .logo-dark { display: inline-block !important; max-height: none !important; overflow: visible !important; }
+  }
+  ${[...colorRules.map((rule) => `[data-ogsc] ${rule}`), ...backgroundRules.map((rule) => `[data-ogsb] ${rule}`)].join('\n  ')}
+</style>`;
+};
+
+export const generateEmailHTML = (config: EmailConfig) => {
+  const { company, footer, layout } = config;
+  const theme = {
+    primaryColor: sanitizeColor(config.theme.primaryColor, INITIAL_CONFIG.theme.primaryColor),
+    backgroundColor: sanitizeColor(config.theme.backgroundColor, INITIAL_CONFIG.theme.backgroundColor),
+    textColor: sanitizeColor(config.theme.textColor, INITIAL_CONFIG.theme.textColor),
+    accentColor: sanitizeColor(config.theme.accentColor, INITIAL_CONFIG.theme.accentColor),
+  };
+  const darkDefaults = INITIAL_CONFIG.theme.dark;
+  const dark: DarkPalette = {
+    enabled: config.theme.dark.enabled,
+    backgroundColor: sanitizeColor(config.theme.dark.backgroundColor, darkDefaults.backgroundColor),
+    surfaceColor: sanitizeColor(config.theme.dark.surfaceColor, darkDefaults.surfaceColor),
+    textColor: sanitizeColor(config.theme.dark.textColor, darkDefaults.textColor),
+    mutedTextColor: sanitizeColor(config.theme.dark.mutedTextColor, darkDefaults.mutedTextColor),
+    primaryColor: sanitizeColor(config.theme.dark.primaryColor, darkDefaults.primaryColor),
+    borderColor: sanitizeColor(config.theme.dark.borderColor, darkDefaults.borderColor),
+  };
+
+  // Every user value goes through one of these. Only product descriptions, hero
+  // subtitles, text sections, coupon terms and the footer text opt in to rich text.
+  // Merge tags of the chosen dialect pass through each of them unescaped.
+  const { mergeTags } = config;
+  const text = keepMergeTags(mergeTags, escapeHtml, 'text');
+  const attr = keepMergeTags(mergeTags, escapeAttr, 'attribute');
+  const href = keepMergeTags(mergeTags, sanitizeUrl, 'attribute', isSafeLinkUrl);
+  const src = keepMergeTags(mergeTags, sanitizeImageUrl, 'attribute', isSafeImageUrl);
+  const richText = keepMergeTags(mergeTags, sanitizeRichText, 'html', isSafeLinkUrl);
+
+  const outlookSafe = config.output.outlookSafe;
+
+  // Helper: Fixed-width ghost table that only Outlook sees, locking widths it would otherwise ignore
+  const msoGhostOpen = (width: number) => outlookSafe
+    ? `<!--[if mso]><table role="presentation" width="${width}" align="center" cellpadding="0" cellspacing="0" border="0"><tr><td width="${width}"><![endif]-->`
+    : '';
+  const msoGhostClose = outlookSafe ? '<!--[if mso]></td></tr></table><![endif]-->' : '';
+  // Keeps Outlook from adding a gap under images in table cells
+  const msoImageCell = outlookSafe ? ' line-height: 0; mso-line-height-rule: exactly;' : '';
+
+  // Helper: Logo image plus a hidden dark variant that the dark-mode styles swap in
+  const renderLogo = (url: string, darkUrl: string, imgAttributes: string) => {
+    if (!dark.enabled || !darkUrl.trim()) return `<img border="0" src="${src(url)}" ${imgAttributes} />`;
+    return `<img border="0" src="${src(url)}" class="logo-light" ${imgAttributes} />`
+      + `<span class="logo-dark" style="display: none; max-height: 0; overflow: hidden; mso-hide: all;"><img border="0" src="${src(darkUrl)}" ${imgAttributes} /></span>`;
+  };
+
+  // Helper: Render a button; Outlook ignores padding on links, so it gets a VML button instead.
+  // ariaLabel names generic labels like "View Details" for screen readers.
+  const renderButton = (link: string, label: string, size: keyof typeof BUTTON_SIZES, ariaLabel = '') => {
+    const { paddingY, paddingX, fontSize } = BUTTON_SIZES[size];
+    const anchor = `<a href="${href(link)}"${ariaLabel ? ` aria-label="${attr(ariaLabel)}"` : ''} class="tap-button dark-button" style="display: inline-block; padding: ${paddingY}px ${paddingX}px; background-color: ${theme.primaryColor}; color: #ffffff; text-decoration: none; border-radius: 4px; font-weight: bold; font-size: ${fontSize}px;">${text(label)}</a>`;
+    if (!outlookSafe) return anchor;
+    const height = fontSize + paddingY * 2 + 4;
+    const width = Math.ceil(label.length * fontSize * 0.6) + paddingX * 2;
+    return `<!--[if mso]>
+<v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" href="${href(link)}" style="height: ${height}px; v-text-anchor: middle; width: ${width}px;" arcsize="10%" stroke="f" fillcolor="${theme.primaryColor}">
+<w:anchorlock/>
+<center style="color: #ffffff; font-family: Arial, sans-serif; font-size: ${fontSize}px; font-weight: bold;">${text(label)}</center>
+</v:roundrect>
+<![endif]--><!--[if !mso]><!-->${anchor}<!--<![endif]-->`;
+  };
+  
+  // Helper: Render Brand Info
+  const renderBrand = (p: Product, align: 'left' | 'center' = 'center') => {
+    if (!p.brandName && !p.brandLogoUrl) return '';
+    const justify = align === 'left' ? 'flex-start' : 'center';
+    return `
+      <div style="margin-bottom: 8px; display: flex; align-items: center; justify-content: ${justify}; gap: 6px;">
+        ${p.brandLogoUrl ? renderLogo(p.brandLogoUrl, p.brandLogoDarkUrl, `alt="${attr(p.brandName)}" width="20" height="20" style="display:inline-block; vertical-align:middle;"`) : ''}
+        ${p.brandName ? `<span class="dark-muted" style="font-size: 12px; text-transform: uppercase; color: #6b7280; letter-spacing: 1px; font-weight: 600; vertical-align:middle;">${text(p.brandName)}</span>` : ''}
+      </div>
+    `;
+  };
+
+  // Helper: Render Price
+  const renderPrice = (p: Product, fontSize: string = '18px') => {
+    if (p.pricingMode === 'hidden') return '';
+    if (p.pricingMode === 'discount') {
+      return `<p style="margin: 0 0 10px 0; color: ${theme.accentColor}; font-weight: bold; font-size: ${fontSize};">${text(p.discountText)}</p>`;
+    }
+    return `<p class="dark-link" style="margin: 0 0 10px 0; color: ${theme.primaryColor}; font-weight: bold; font-size: ${fontSize};">${text(p.price)}</p>`;
+  };
+
+  // Alt text stands in for the picture when images are blocked, so it gets real text styling.
+  // Image-only products carry their message in the image and need it most.
+  const altTextStyle = (color: string, fontSize: number) =>
+    ` font-family: Arial, Helvetica, sans-serif; font-size: ${fontSize}px; font-weight: bold; line-height: 1.3; color: ${color};`;
+  const productAlt = (product: Product) => product.imageAlt.trim() || product.name;
+  const productAltStyle = (product: Product) => altTextStyle(theme.textColor, product.renderMode === 'image-only' ? 18 : 14);
+
+  // 1. Classic Grid (layout.columns per row)
+  const renderGridCard = (product: Product, fullRow: boolean) => {
+    const imgPixelWidth = getGridImagePixelWidth(layout, fullRow);
+    // Featured images keep their own proportions instead of a square crop
+    const cropStyle = fullRow ? '' : ' object-fit: cover; aspect-ratio: 1/1;';
+    let content = '';
+    if (product.renderMode === 'image-only') {
+      content = `
+        <a href="${href(product.link)}" style="text-decoration:none; display:block; text-align: center;">
+          <img border="0" src="${src(product.imageUrl)}" alt="${attr(productAlt(product))}" width="${imgPixelWidth}" class="fluid-img" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto; border-radius: 8px;${productAltStyle(product)}" />
+        </a>
+      `;
+    } else {
+      content = `
+        <table role="presentation" width="100%" height="100%" cellpadding="0" cellspacing="0" border="0" class="dark-surface dark-border" style="border: 1px solid #e5e7eb; border-radius: 8px; overflow: hidden; background-color: #ffffff;">
+          <!-- 1. Image Row -->
+          <tr>
+            <td align="center" style="padding-top: ${layout.productImageSize === 'large' ? '0' : '15px'}; font-size: 0;${msoImageCell}" valign="top">
+              <a href="${href(product.link)}" style="text-decoration:none; display:block;">
+                <img border="0" src="${src(product.imageUrl)}" alt="${attr(productAlt(product))}" width="${imgPixelWidth}" class="fluid-img" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto;${cropStyle}${productAltStyle(product)}" />
+              </a>
+            </td>
+          </tr>
+          <!-- 2. Content Row -->
+          <tr>
+            <td style="padding: 15px 15px 5px 15px; text-align: center;" valign="top">
+              ${renderBrand(product, 'center')}
+              <h3 class="dark-text" style="margin: 0 0 8px 0; color: ${theme.textColor}; font-size: 16px; line-height: 1.3;">${text(product.name)}</h3>
+              <p class="dark-muted" style="margin: 0 0 10px 0; color: #6b7280; font-size: 14px; line-height: 1.5;">${richText(product.description)}</p>
+              ${renderPrice(product)}
+            </td>
+          </tr>
+          <!-- 3. Button Row -->
+          <tr>
+            <td style="padding: 0 15px 20px 15px; text-align: center;" valign="bottom">
+              ${renderButton(product.link, 'View Details', 'medium', `View details: ${product.name}`)}
+            </td>
+          </tr>
+        </table>
+      `;
+    }
+
+    return content;
+  };
+
+  const renderProductsGrid = (products: Product[]) => {
+    const { columns, gutter } = layout;
+    const cellWidth = `${Math.floor(10000 / columns) / 100}%`;
+    const rows: string[] = [];
+    let cells: string[] = [];
+
+    // Pads a partial row with empty cells so every column keeps its width
+    const closeRow = () => {
+      if (cells.length === 0) return;
+      while (cells.length < columns) cells.push(`<td width="${cellWidth}" class="stack-hide"></td>`);
+      rows.push(`<tr>${cells.join('')}</tr>`);
+      cells = [];
+    };
+
+    products.forEach((product, index) => {
+      const cell = (sizing: string, fullRow: boolean) => `
+        <td ${sizing} valign="top" class="stack-column" style="padding: ${gutter / 2}px;">
+          ${productMarker(index)}
+          ${renderGridCard(product, fullRow)}
+        </td>
+      `;
+      if (product.spanFullRow) {
+        closeRow();
+        rows.push(`<tr>${cell(`colspan="${columns}"`, true)}</tr>`);
+      } else {
+        cells.push(cell(`width="${cellWidth}"`, false));
+        if (cells.length === columns) closeRow();
+      }
+    });
+    closeRow();
+
+    return `${msoGhostOpen(layout.contentWidth - PRODUCTS_PADDING * 2)}<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"${outlookSafe ? ' style="table-layout: fixed;"' : ''}>${rows.join('')}</table>${msoGhostClose}`;
+  };
+
+  // 2. Modern List
+  const renderProductsList = (products: Product[]) => {
+    let html = '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">';
+    const imgSize = getListImagePixelWidth(layout);
+
+    products.forEach((product, index) => {
+      let content = '';
+      if (product.renderMode === 'image-only') {
+        content = `
+           <a href="${href(product.link)}" style="text-decoration:none; display:block;">
+             <img border="0" src="${src(product.imageUrl)}" alt="${attr(productAlt(product))}" width="${layout.contentWidth - PRODUCTS_PADDING * 2}" class="fluid-img" style="display: block; border-radius: 8px; width: 100%; height: auto;${productAltStyle(product)}" />
+           </a>
+        `;
+      } else {
+        content = `
+            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+              <tr>
+                <td width="${imgSize + 10}" valign="top" class="stack-column">
+                  <a href="${href(product.link)}" style="text-decoration:none; display:block;">
+                    <img border="0" src="${src(product.imageUrl)}" alt="${attr(productAlt(product))}" width="${imgSize}" class="fluid-img" style="display: block; border-radius: 6px; object-fit: cover; height: ${imgSize}px; width: ${imgSize}px;${productAltStyle(product)}" />
+                  </a>
+                </td>
+                <td valign="top" class="stack-column stack-gap" style="padding-left: 20px;">
+                  ${renderBrand(product, 'left')}
+                  <h3 class="dark-text" style="margin: 0 0 5px 0; color: ${theme.textColor}; font-size: 18px;">${text(product.name)}</h3>
+                  ${renderPrice(product)}
+                  <p class="dark-muted" style="margin: 0 0 15px 0; color: #6b7280; font-size: 14px; line-height: 1.4;">${richText(product.description)}</p>
+                  <a href="${href(product.link)}" aria-label="${attr(`Buy now: ${product.name}`)}" class="dark-link" style="color: ${theme.primaryColor}; text-decoration: underline; font-size: 14px;">Buy Now &rarr;</a>
+                </td>
+              </tr>
+            </table>
+        `;
+      }
+
+      html += `
+        <tr>
+          <td class="dark-border" style="padding: 15px 0; border-bottom: 1px solid #e5e7eb;">
+            ${productMarker(index)}
+            ${content}
+          </td>
+        </tr>
+      `;
+    });
+    html += '</table>';
+    return html;
+  };
+
+  // 3. Banner Style
+  const renderProductsBanner = (products: Product[]) => {
+    let html = '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">';
+    const imgPixelWidth = getBannerImagePixelWidth(layout);
+
+    products.forEach((product, index) => {
+       let content = '';
+       if (product.renderMode === 'image-only') {
+          content = `
+            <a href="${href(product.link)}" style="text-decoration:none; display:block; text-align: center;">
+              <img border="0" src="${src(product.imageUrl)}" alt="${attr(productAlt(product))}" width="${imgPixelWidth}" class="fluid-img" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto;${productAltStyle(product)}" />
+            </a>
+          `;
+       } else {
+          content = `
+            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" class="dark-border" style="border: 1px solid #e5e7eb; border-radius: 0px; margin-bottom: 20px;">
+              <!-- Image Row -->
+              <tr>
+                <td align="center" style="padding-top: ${layout.productImageSize === 'large' ? '0' : '20px'};${msoImageCell}">
+                  <a href="${href(product.link)}" style="text-decoration:none; display:block;">
+                    <img border="0" src="${src(product.imageUrl)}" alt="${attr(productAlt(product))}" width="${imgPixelWidth}" class="fluid-img" style="display: inline-block; width: ${imgPixelWidth}px; max-width: 100%; height: auto;${productAltStyle(product)}" />
+                  </a>
+                </td>
+              </tr>
+              <!-- Content Row -->
+              <tr>
+                <td class="dark-surface" style="padding: 24px; text-align: left; background-color: #ffffff;">
+                   ${(product.brandName || product.brandLogoUrl) ? `
+                   <table role="presentation" width="100%" border="0" cellspacing="0" cellpadding="0" style="margin-bottom: 8px;">
+                     <tr>
+                       <td>${renderBrand(product, 'left')}</td>
+                     </tr>
+                   </table>
+                   ` : ''}
+                   <h3 class="dark-text" style="margin: 0 0 10px 0; color: ${theme.textColor}; font-size: 22px; line-height: 1.3;">${text(product.name)}</h3>
+                   <p class="dark-muted" style="margin: 0 0 20px 0; color: #6b7280; font-size: 15px; line-height: 1.6;">${richText(product.description)}</p>
+                   <table role="presentation" width="100%" border="0" cellspacing="0" cellpadding="0" class="dark-border" style="border-top: 1px solid #f3f4f6; padding-top: 15px;">
+                      <tr>
+                        <td valign="middle" align="left" class="stack-column">
+                           ${renderPrice(product, '20px')}
+                        </td>
+                        <td valign="middle" align="right" class="stack-column">
+                           ${renderButton(product.link, 'Shop Now', 'small', `Shop now: ${product.name}`)}
+                        </td>
+                      </tr>
+                   </table>
+                </td>
+              </tr>
+            </table>
+          `;
+       }
+
+       html += `
+         <tr>
+           <td style="padding-bottom: 20px;">
+             ${productMarker(index)}
+             ${content}
+           </td>
+         </tr>
+       `;
+    });
+    html += '</table>';
+    return html;
+  };
+
+  // --- Section Renderers ---
+
+  const renderHeader = () => `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" class="dark-surface" style="background-color: #ffffff; border-bottom: 2px solid ${theme.primaryColor};">
+      <tr>
+        <td align="center" style="padding: 20px;">
+          <a href="${href(company.websiteUrl)}" style="text-decoration:none;">
+            ${company.logoUrl 
+              ? renderLogo(company.logoUrl, company.logoDarkUrl, `alt="${attr(company.name)}" height="50" style="display: block; height: 50px;${altTextStyle(theme.textColor, 20)}"`)
+              : `<h1 class="dark-link" style="margin:0; color: ${theme.primaryColor};">${text(company.name)}</h1>`
+            }
+          </a>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  // Heroes keep the soft list background when the email leads with a list
+  const heroBackground = getProductSections(config)[0]?.template === 'modern' ? '#f8fafc' : '#ffffff';
+
+  // With images off the hero shows its alt text in white on the brand colour instead of an empty box
+  const renderHero = (hero: HeroContent) => `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td bgcolor="${theme.primaryColor}" style="padding: 0; text-align: center; background-color: ${theme.primaryColor};">
+          <a href="${href(hero.ctaLink)}" style="display:block; text-decoration:none;">
+            <img border="0" src="${src(hero.imageUrl)}" alt="${attr(hero.imageAlt.trim() || hero.title)}" width="${layout.contentWidth}" class="fluid-img" style="display: block; width: 100%; max-width: ${layout.contentWidth}px; height: auto;${altTextStyle('#ffffff', 24)}" />
+          </a>
+        </td>
+      </tr>
+      <tr>
+        <td class="dark-surface dark-border" style="padding: 30px 20px; background-color: ${heroBackground}; text-align: center; border-bottom: 1px solid #f3f4f6;">
+          <h2 class="dark-text" style="margin: 0 0 10px 0; color: ${theme.textColor}; font-size: 24px;">${text(hero.title)}</h2>
+          <p class="dark-muted" style="margin: 0 0 20px 0; color: #4b5563; font-size: 16px; line-height: 1.5;">${richText(hero.subtitle)}</p>
+          ${renderButton(hero.ctaLink, hero.ctaText, 'large')}
+        </td>
+      </tr>
+    </table>
+  `;
+
+  const renderProducts = (section: ProductSection) => {
+    let productsHTML = '';
+    if (section.template === 'classic') productsHTML = renderProductsGrid(section.products);
+    else if (section.template === 'modern') productsHTML = renderProductsList(section.products);
+    else if (section.template === 'banner') productsHTML = renderProductsBanner(section.products);
+    return `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td class="content-pad" style="padding: ${PRODUCTS_PADDING}px;">
+          ${productsHTML}
+        </td>
+      </tr>
+    </table>
+  `;
+  };
+
+  const renderText = (body: string, align: 'left' | 'center') => `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td class="content-pad dark-text" style="padding: 10px ${PRODUCTS_PADDING}px; color: ${theme.textColor}; font-size: 15px; line-height: 1.6; text-align: ${align};">
+          ${richText(body)}
+        </td>
+      </tr>
+    </table>
+  `;
+
+  const renderDivider = () => `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td style="padding: 10px ${PRODUCTS_PADDING}px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+            <tr>
+              <td class="dark-border" style="border-top: 1px solid #e5e7eb; font-size: 1px; line-height: 1px;">&nbsp;</td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  const renderCoupon = (coupon: CouponContent) => `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td class="content-pad" style="padding: ${PRODUCTS_PADDING}px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" class="dark-surface" style="border: 2px dashed ${theme.accentColor}; background-color: #ffffff;">
+            <tr>
+              <td align="center" style="padding: 24px 20px; text-align: center;">
+                <p class="dark-muted" style="margin: 0 0 8px 0; color: #6b7280; font-size: 13px; font-weight: bold; text-transform: uppercase; letter-spacing: 1px;">${text(coupon.title)}</p>
+                <p style="margin: 0 0 10px 0; color: ${theme.accentColor}; font-size: 28px; font-weight: bold; letter-spacing: 3px; font-family: 'Courier New', Courier, monospace;">${text(coupon.code)}</p>
+                ${coupon.description ? `<p class="dark-muted" style="margin: 0 0 15px 0; color: #6b7280; font-size: 13px; line-height: 1.5;">${richText(coupon.description)}</p>` : ''}
+                ${coupon.ctaText ? renderButton(coupon.ctaLink, coupon.ctaText, 'medium') : ''}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  // Helper: 1x1 open-tracking image, last in the footer so it loads after the content
+  const openPixelUrl = src(config.tracking.openPixelUrl);
+  const openPixel = openPixelUrl
+    ? `<img src="${openPixelUrl}" width="1" height="1" alt="" style="display: block; width: 1px; height: 1px; border: 0; overflow: hidden;">`
+    : '';
+
+  // Helper: A row of footer links separated by middots; empty URLs are skipped
+  const renderLinkRow = (links: { label: string; url: string }[], style: string) => {
+    const anchors = links
+      .filter((link) => link.url.trim())
+      .map((link) => `<a href="${href(link.url)}" class="dark-link" style="color: ${theme.primaryColor}; text-decoration: underline;">${text(link.label)}</a>`);
+    return anchors.length ? `<p style="${style}">${anchors.join(' &middot; ')}</p>` : '';
+  };
+
+  const renderFooter = () => `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" class="dark-surface" style="background-color: #f3f4f6; margin-top: 20px;">
+      <tr>
+        <td align="center" class="dark-muted" style="padding: 30px 20px; color: #6b7280; font-size: 12px; line-height: 1.5;">
+          <p style="margin: 0 0 10px 0; font-weight: bold;">${text(company.name)}</p>
+          <p style="margin: 0 0 10px 0;">${text(footer.address)}</p>
+          <p style="margin: 0;">${richText(footer.text)}</p>
+          ${renderLinkRow(footer.socialLinks.map((link) => ({ label: socialLabel(link.network), url: link.url })), 'margin: 15px 0 0 0;')}
+          <div style="margin-top: 15px;">
+            <a href="${href(company.websiteUrl)}" class="dark-link" style="color: ${theme.primaryColor}; text-decoration: none;">Visit Website</a>
+          </div>
+          ${renderLinkRow([
+            { label: 'Unsubscribe', url: footer.unsubscribeUrl },
+            { label: 'Manage preferences', url: footer.preferencesUrl },
+            { label: 'View in browser', url: footer.viewInBrowserUrl },
+          ], 'margin: 15px 0 0 0; font-size: 12px;')}
+          ${openPixel}
+        </td>
+      </tr>
+    </table>
+  `;
+
+  const renderSection = (section: Section) => {
+    switch (section.type) {
+      case 'header': return renderHeader();
+      case 'hero': return section.hidden ? '' : renderHero(section.hero);
+      case 'products': return renderProducts(section);
+      case 'text': return renderText(section.text, section.align);
+      case 'divider': return renderDivider();
+      case 'coupon': return renderCoupon(section.coupon);
+      case 'footer': return renderFooter();
+    }
+  };
+
+  // --- HTML Assembly ---
+
+  // Hidden inbox-preview text; the trailing spacers stop clients pulling in body copy after it
+  const renderPreheader = () => config.preheader.trim()
+    ? `<div style="display: none; max-height: 0; overflow: hidden; mso-hide: all; font-size: 1px; line-height: 1px; opacity: 0; color: transparent;">${text(config.preheader.trim())}${PREHEADER_SPACER}</div>`
+    : '';
+
+  const bodyHTML = applyLinkTracking(
+    config.sections.map((section, index) => `${sectionMarker(index, section.type)}${renderSection(section)}`).join('')
+      + (config.sections.some((s) => s.type === 'footer') ? '' : openPixel),
+    config,
+  );
+
+  // Wrapper for centering in Outlook
+  return `
+<!DOCTYPE html>
+${outlookSafe ? `<html lang="${attr(config.output.language)}" xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">` : `<html lang="${attr(config.output.language)}">`}
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="color-scheme" content="${dark.enabled ? 'light dark' : 'light'}">
+<meta name="supported-color-schemes" content="${dark.enabled ? 'light dark' : 'light'}">
+${outlookSafe ? '<meta http-equiv="X-UA-Compatible" content="IE=edge">' : ''}
+<title>${text(getEmailTitle(config))}</title>
+${responsiveStyles(layout.contentWidth)}
+${dark.enabled ? darkModeStyles(dark) : ''}
+${outlookSafe ? MSO_HEAD : ''}
+</head>
+<body class="dark-page" style="margin: 0; padding: 0; background-color: #f3f4f6;">
+  ${renderPreheader()}
+  <center>
+    <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" class="dark-page" style="background-color: #f3f4f6;">
+      <tr>
+        <td align="center" style="padding: 20px 0;">
+          ${msoGhostOpen(layout.contentWidth)}
+          <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="${layout.contentWidth}" class="email-container dark-page" style="max-width: ${layout.contentWidth}px; background-color: ${theme.backgroundColor}; width: ${layout.contentWidth}px;">
+            <tr>
+              <td>
+                ${bodyHTML}
+              </td>
+            </tr>
+          </table>
+          ${msoGhostClose}
+        </td>
+      </tr>
+    </table>
+  </center>
+</body>
+</html>
+  `;
+};
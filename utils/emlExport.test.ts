@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { EmlOptions, buildEml, defaultEmlOptions, generateEml } from './emlExport';
+
+const options: EmlOptions = {
+  subject: 'Spring sale',
+  fromName: 'TechNova',
+  fromAddress: 'news@example.com',
+  to: '',
+  embedImages: false,
+  listUnsubscribe: '',
+  oneClickUnsubscribe: false,
+};
+
+const headersOf = (overrides: Partial<EmlOptions>) => buildEml('<p>Hi</p>', 'Hi', { ...options, ...overrides }).split('\r\n\r\n')[0].split('\r\n');
+
+test('pasted line breaks cannot add headers', () => {
+  const headers = headersOf({
+    fromName: 'TechNova\r\nBcc: victim@example.com',
+    fromAddress: 'news@example.com\r\nBcc: victim@example.com',
+    to: 'Jane <jane@example.com>\r\nBcc: victim@example.com',
+    subject: 'Sale\nBcc: victim@example.com',
+  });
+  assert.ok(!headers.some((header) => header.startsWith('Bcc:')));
+  assert.equal(headers.filter((header) => header.startsWith('From:')).length, 1);
+});
+
+test('display names are quoted when ASCII and encoded otherwise', () => {
+  assert.ok(headersOf({ fromName: 'Tech "Nova"' }).includes('From: "Tech \\"Nova\\"" <news@example.com>'));
+  assert.ok(headersOf({ to: 'Zoë <zoe@example.com>' }).includes(`To: =?UTF-8?B?${Buffer.from('Zoë').toString('base64')}?= <zoe@example.com>`));
+  assert.ok(headersOf({ to: 'zoe@example.com' }).includes('To: zoe@example.com'));
+});
+
+test('embedding images leaves the open-tracking pixel remote', async () => {
+  const pixel = 'https://t.esp.com/open.gif?id={{email}}';
+  const config = { ...INITIAL_CONFIG, tracking: { ...INITIAL_CONFIG.tracking, openPixelUrl: pixel } };
+  const fetched: string[] = [];
+  const fetchImage = (async (url: string) => {
+    fetched.push(url);
+    return new Response(new Uint8Array([1]), { headers: { 'content-type': 'image/png' } });
+  }) as typeof fetch;
+
+  const { eml } = await generateEml(config, { ...defaultEmlOptions(config), embedImages: true }, fetchImage);
+  assert.ok(!fetched.includes(pixel));
+  assert.ok(fetched.length > 0);
+  assert.ok(eml.includes('t.esp.com/open.gif'));
+});
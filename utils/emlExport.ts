@@ -0,0 +1,233 @@
+import { EmailConfig } from '../types';
+import { generateEmailHTML } from './emailGenerator';
+import { generatePlainText } from './plainText';
+import { getEmailTitle } from './sections';
+import { listUnsubscribeValue, supportsOneClick } from './compliance';
+
+// --- Options ---
+
+export type EmlOptions = {
+  subject: string;
+  fromName: string;
+  fromAddress: string;
+  to: string; // optional; left out of the headers when empty
+  embedImages: boolean; // true = product/hero/logo images become CID inline attachments
+  listUnsubscribe: string; // List-Unsubscribe header value, e.g. "<https://…>, <mailto:…>"; left out when empty
+  oneClickUnsubscribe: boolean; // Adds List-Unsubscribe-Post when the header has an https URL
+};
+
+export const defaultEmlOptions = (config: EmailConfig): EmlOptions => {
+  let host = 'example.com';
+  try {
+    host = new URL(config.company.websiteUrl).hostname.replace(/^www\./, '') || host;
+  } catch {
+    // Keep the placeholder domain when the website URL isn't absolute
+  }
+  return {
+    subject: getEmailTitle(config),
+    fromName: config.company.name,
+    fromAddress: `newsletter@${host}`,
+    to: '',
+    embedImages: false,
+    listUnsubscribe: listUnsubscribeValue(config),
+    oneClickUnsubscribe: config.footer.unsubscribeOneClick,
+  };
+};
+
+// --- Encoding Helpers ---
+
+const CRLF = '\r\n';
+const encoder = new TextEncoder();
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const wrapBase64 = (base64: string) => base64.replace(/.{1,76}/g, (line) => line + CRLF).trimEnd();
+
+// RFC 2047 encoded-word for non-ASCII header values
+const encodeHeaderWord = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${bytesToBase64(encoder.encode(value))}?=`;
+
+// Header values are single lines; a pasted line break would start a header of its own
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+// An address has no spaces, quotes or brackets to begin with, so they're dropped rather than escaped
+const cleanAddress = (address: string) => address.replace(/[\s<>"]+/g, '');
+
+const formatAddress = (name: string, address: string) => {
+  const display = singleLine(name);
+  if (!display) return cleanAddress(address);
+  const phrase = /^[\x20-\x7e]*$/.test(display) ? `"${display.replace(/["\\]/g, '\\$&')}"` : encodeHeaderWord(display);
+  return `${phrase} <${cleanAddress(address)}>`;
+};
+
+// "Jane Doe <jane@example.com>" or a bare address, as typed into the To field
+const formatRecipient = (value: string) => {
+  const match = singleLine(value).match(/^"?([^"<]*?)"?\s*<([^<>]*)>$/);
+  return match ? formatAddress(match[1], match[2]) : cleanAddress(value);
+};
+
+// RFC 2045 quoted-printable, soft-wrapped at 76 characters
+export const encodeQuotedPrintable = (value: string) => {
+  const normalized = value.replace(/\r?\n/g, '\n');
+  return normalized
+    .split('\n')
+    .map((line) => {
+      const bytes = encoder.encode(line);
+      let encoded = '';
+      let lineLength = 0;
+      bytes.forEach((byte, i) => {
+        const isLast = i === bytes.length - 1;
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+        if (lineLength + token.length > 75) {
+          encoded += `=${CRLF}`;
+          lineLength = 0;
+        }
+        encoded += token;
+        lineLength += token.length;
+      });
+      return encoded;
+    })
+    .join(CRLF);
+};
+
+const formatDate = (date: Date) => date.toUTCString().replace('GMT', '+0000');
+
+const randomToken = () => Math.random().toString(36).slice(2, 12);
+
+// --- Inline Images ---
+
+export type InlineImage = {
+  contentId: string;
+  filename: string;
+  mimeType: string;
+  base64: string;
+};
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+export const decodeAttr = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+export const fetchImageBytes = async (url: string, fetchImage: typeof fetch = fetch) => {
+  const response = await fetchImage(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const mimeType = (response.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim();
+  if (!mimeType.startsWith('image/')) throw new Error(`not an image (${mimeType})`);
+  return { mimeType, bytes: new Uint8Array(await response.arrayBuffer()) };
+};
+
+// Uploaded images live in the config as base64 data: URLs
+export const decodeDataUrl = (url: string) => {
+  const match = url.match(/^data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/=\s]+)$/i);
+  if (!match) return null;
+  const binary = atob(match[2].replace(/\s+/g, ''));
+  return { mimeType: match[1].toLowerCase(), bytes: Uint8Array.from(binary, (c) => c.charCodeAt(0)) };
+};
+
+/**
+ * Downloads every remote <img> in the HTML and points it at a cid: reference;
+ * uploaded data: images are attached as they are. Images that can't be fetched
+ * (CORS, 404, offline) keep their remote URL and are reported back instead of
+ * failing the whole export. The open-tracking pixel (`pixelUrl`) stays remote,
+ * or opens would never reach the tracking server.
+ */
+export const embedImages = async (html: string, fetchImage: typeof fetch = fetch, pixelUrl = '') => {
+  const sources = Array.from(new Set(
+    Array.from(html.matchAll(/<img\b[^>]*?\bsrc="((?:https?|data):[^"]+)"/gi), (m) => m[1]),
+  )).filter((escapedSrc) => !pixelUrl.trim() || decodeAttr(escapedSrc) !== pixelUrl.trim());
+  const images: InlineImage[] = [];
+  const failures: string[] = [];
+  let rewritten = html;
+
+  for (const [index, escapedSrc] of sources.entries()) {
+    const url = decodeAttr(escapedSrc);
+    try {
+      const { mimeType, bytes } = decodeDataUrl(url) ?? await fetchImageBytes(url, fetchImage);
+      const contentId = `img${index + 1}.${randomToken()}@email-builder`;
+      images.push({
+        contentId,
+        filename: `image-${index + 1}.${IMAGE_EXTENSIONS[mimeType] ?? 'bin'}`,
+        mimeType,
+        base64: bytesToBase64(bytes),
+      });
+      rewritten = rewritten.split(`src="${escapedSrc}"`).join(`src="cid:${contentId}"`);
+    } catch (err) {
+      failures.push(`${url} (${(err as Error).message})`);
+    }
+  }
+
+  return { html: rewritten, images, failures };
+};
+
+// --- Message Assembly ---
+
+const part = (headers: string[], body: string) => [...headers, '', body].join(CRLF);
+
+const multipart = (type: string, boundary: string, parts: string[]) =>
+  part(
+    [`Content-Type: multipart/${type}; boundary="${boundary}"`],
+    [...parts.map((p) => `--${boundary}${CRLF}${p}`), `--${boundary}--`, ''].join(CRLF),
+  );
+
+export const buildEml = (html: string, text: string, options: EmlOptions, images: InlineImage[] = [], date = new Date()) => {
+  const domain = cleanAddress(options.fromAddress).split('@')[1] || 'localhost';
+  const textPart = part(
+    ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: quoted-printable'],
+    encodeQuotedPrintable(text),
+  );
+  const htmlPart = part(
+    ['Content-Type: text/html; charset=utf-8', 'Content-Transfer-Encoding: quoted-printable'],
+    encodeQuotedPrintable(html),
+  );
+
+  // multipart/alternative [ text, multipart/related [ html, images... ] ]
+  const richPart = images.length === 0 ? htmlPart : multipart('related', `rel-${randomToken()}`, [
+    htmlPart,
+    ...images.map((image) => part(
+      [
+        `Content-Type: ${image.mimeType}; name="${image.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-ID: <${image.contentId}>`,
+        `Content-Disposition: inline; filename="${image.filename}"`,
+      ],
+      wrapBase64(image.base64),
+    )),
+  ]);
+
+  const listUnsubscribe = singleLine(options.listUnsubscribe);
+  const to = formatRecipient(options.to);
+  const headers = [
+    `From: ${formatAddress(options.fromName, options.fromAddress)}`,
+    ...(to ? [`To: ${to}`] : []),
+    `Subject: ${encodeHeaderWord(singleLine(options.subject))}`,
+    `Date: ${formatDate(date)}`,
+    `Message-ID: <${Date.now().toString(36)}.${randomToken()}@${domain}>`,
+    ...(listUnsubscribe ? [`List-Unsubscribe: ${listUnsubscribe}`] : []),
+    ...(options.oneClickUnsubscribe && supportsOneClick(listUnsubscribe) ? ['List-Unsubscribe-Post: List-Unsubscribe=One-Click'] : []),
+    'MIME-Version: 1.0',
+  ];
+
+  return headers.join(CRLF) + CRLF + multipart('alternative', `alt-${randomToken()}`, [textPart, richPart]);
+};
+
+// Renders the config and packages it as a complete .eml message
+export const generateEml = async (config: EmailConfig, options: EmlOptions, fetchImage?: typeof fetch) => {
+  const rendered = generateEmailHTML(config);
+  const { html, images, failures } = options.embedImages
+    ? await embedImages(rendered, fetchImage, config.tracking.openPixelUrl)
+    : { html: rendered, images: [], failures: [] };
+  return { eml: buildEml(html, generatePlainText(config), options, images), failures };
+};
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { EmailConfig, ExportProfile } from '../types';
+import { applyExportProfile, checkAssetHosts, checkPackageBaseUrl } from './exportProfiles';
+import { generateEmailHTML } from './emailGenerator';
+import { packageEmail } from './packageExport';
+
+const PIXEL = 'https://t.esp.com/open.gif?id={{email}}';
+
+const profile: ExportProfile = {
+  id: 'production',
+  name: 'Production',
+  hostRewrites: [{ from: 'staging-cdn.example.com', to: 'cdn.example.com' }],
+  cacheBust: 'v=2',
+  allowedAssetHosts: ['cdn.example.com', '*.unsplash.com', 'via.placeholder.com', 'upload.wikimedia.org'],
+};
+
+const withPixel = (): EmailConfig => ({
+  ...INITIAL_CONFIG,
+  tracking: { ...INITIAL_CONFIG.tracking, openPixelUrl: PIXEL },
+});
+
+test('the open pixel is not an asset: no host check, no rewrite, no cache bust', () => {
+  const config = withPixel();
+  assert.deepEqual(checkAssetHosts(config, profile), []);
+  assert.equal(applyExportProfile(config, profile).tracking.openPixelUrl, PIXEL);
+  assert.ok(generateEmailHTML(applyExportProfile(config, { ...profile, allowedAssetHosts: [] })).includes('src="https://t.esp.com/open.gif?id={{email}}"'));
+});
+
+const withLogo = (logoUrl: string): EmailConfig => ({ ...INITIAL_CONFIG, company: { ...INITIAL_CONFIG.company, logoUrl } });
+const logoIssues = (logoUrl: string) => checkAssetHosts(withLogo(logoUrl), profile).filter((issue) => issue.path === 'company.logoUrl');
+
+test('asset hosts are compared as the browser resolves them', () => {
+  assert.equal(logoIssues('https://cdn.example.com/logo.png').length, 0);
+  assert.equal(logoIssues('https://CDN.example.com.:443/logo.png').length, 0);
+  assert.equal(logoIssues('https://user@cdn.example.com/logo.png').length, 0);
+  assert.equal(logoIssues('https://images.unsplash.com/logo.png').length, 0);
+  assert.equal(logoIssues('//evil.com\\@cdn.example.com/logo.png').length, 1);
+  assert.equal(logoIssues('https://cdn.example.com@evil.com/logo.png').length, 1);
+  assert.equal(logoIssues('https://evilunsplash.com/logo.png').length, 1);
+  assert.equal(logoIssues('https://unsplash.com/logo.png').length, 1);
+});
+
+test('a .zip package only skips the host check for images it relocated', async () => {
+  const config = withLogo('https://staging-cdn.example.com/logo.png');
+  const remoteOnly: ExportProfile = { ...profile, allowedAssetHosts: ['cdn.example.com'] };
+  const fetchImage = (async () => new Response(new Uint8Array([1]), { headers: { 'content-type': 'image/png' } })) as typeof fetch;
+  const exported = applyExportProfile(config, remoteOnly);
+
+  const kept = await packageEmail(exported, { assetBaseUrl: '', includeRemoteImages: false }, fetchImage);
+  const keptIssues = checkAssetHosts(config, remoteOnly, (url) => kept.packaged.includes(url));
+  assert.ok(keptIssues.some((issue) => issue.path.endsWith('.imageUrl')));
+  assert.ok(!keptIssues.some((issue) => issue.path === 'company.logoUrl'));
+
+  const moved = await packageEmail(exported, { assetBaseUrl: '', includeRemoteImages: true }, fetchImage);
+  assert.deepEqual(checkAssetHosts(config, remoteOnly, (url) => moved.packaged.includes(url)), []);
+});
+
+test('a .zip package serves relocated images only from an allowed base URL', () => {
+  assert.deepEqual(checkPackageBaseUrl('https://cdn.example.com/spring/', profile), []);
+  assert.equal(checkPackageBaseUrl('https://evil-cdn.com/spring/', profile).length, 1);
+  assert.equal(checkPackageBaseUrl('', profile).length, 1);
+  assert.deepEqual(checkPackageBaseUrl('', { ...profile, allowedAssetHosts: [] }), []);
+});
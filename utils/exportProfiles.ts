@@ -0,0 +1,211 @@
+import { EmailConfig, ExportProfile, HostRewrite, Section } from '../types';
+import { ValidationIssue } from './configValidation';
+
+// --- Profiles ---
+
+export const newExportProfile = (name = 'Production'): ExportProfile => ({
+  id: `profile-${Date.now().toString(36)}`,
+  name,
+  hostRewrites: [],
+  cacheBust: '',
+  allowedAssetHosts: [],
+});
+
+// The CLI and render server pick a profile by id or, case-insensitively, by name
+export const findExportProfile = (config: EmailConfig, key: string) => {
+  const wanted = key.trim().toLowerCase();
+  return config.exportProfiles.find((p) => p.id === key.trim() || p.name.trim().toLowerCase() === wanted);
+};
+
+// --- URL Rewriting ---
+
+// Absolute or protocol-relative http(s) URL, split around its host
+const HTTP_URL = /^((?:https?:)?\/\/)([^/?#\s]+)(.*)$/is;
+
+export const rewriteHost = (url: string, rewrites: HostRewrite[]) => {
+  const match = url.trim().match(HTTP_URL);
+  if (!match) return url;
+  const [, scheme, host, rest] = match;
+  // Half-filled rows from the editor are skipped
+  const rewrite = rewrites.find((r) => r.to.trim() && r.from.trim().toLowerCase() === host.toLowerCase());
+  return rewrite ? `${scheme}${rewrite.to.trim()}${rest}` : url;
+};
+
+// Adds the profile's "name=value" parameter unless the URL already sets that name
+export const addCacheBust = (url: string, param: string) => {
+  const trimmed = url.trim();
+  const value = param.trim();
+  if (!value || !HTTP_URL.test(trimmed)) return url;
+
+  const hashAt = trimmed.indexOf('#');
+  const base = hashAt === -1 ? trimmed : trimmed.slice(0, hashAt);
+  const hash = hashAt === -1 ? '' : trimmed.slice(hashAt);
+  const queryAt = base.indexOf('?');
+  const existing = new URLSearchParams(queryAt === -1 ? '' : base.slice(queryAt + 1));
+  if (existing.has(value.split('=')[0])) return url;
+
+  const separator = queryAt === -1 ? '?' : base.endsWith('?') || base.endsWith('&') ? '' : '&';
+  return `${base}${separator}${value}${hash}`;
+};
+
+// --- Config Walk ---
+
+type UrlMapper = (url: string, path: string) => string;
+
+// Links inside rich text fields keep their markup; only the href value is mapped
+const mapRichTextLinks = (value: string, path: string, link: UrlMapper) =>
+  value.replace(/(<a\b[^>]*?\bhref\s*=\s*["']?)([^"'\s>]+)/gi, (_, prefix: string, url: string) => prefix + link(url, path));
+
+const mapSectionUrls = (section: Section, path: string, asset: UrlMapper, link: UrlMapper): Section => {
+  switch (section.type) {
+    case 'hero': {
+      const { hero } = section;
+      return {
+        ...section,
+        hero: {
+          ...hero,
+          imageUrl: asset(hero.imageUrl, `${path}.hero.imageUrl`),
+          ctaLink: link(hero.ctaLink, `${path}.hero.ctaLink`),
+          subtitle: mapRichTextLinks(hero.subtitle, `${path}.hero.subtitle`, link),
+        },
+      };
+    }
+    case 'products':
+      return {
+        ...section,
+        products: section.products.map((product, index) => {
+          const productPath = `${path}.products[${index}]`;
+          return {
+            ...product,
+            imageUrl: asset(product.imageUrl, `${productPath}.imageUrl`),
+            brandLogoUrl: product.brandLogoUrl && asset(product.brandLogoUrl, `${productPath}.brandLogoUrl`),
+            brandLogoDarkUrl: product.brandLogoDarkUrl && asset(product.brandLogoDarkUrl, `${productPath}.brandLogoDarkUrl`),
+            link: link(product.link, `${productPath}.link`),
+            description: mapRichTextLinks(product.description, `${productPath}.description`, link),
+          };
+        }),
+      };
+    case 'text':
+      return { ...section, text: mapRichTextLinks(section.text, `${path}.text`, link) };
+    case 'coupon': {
+      const { coupon } = section;
+      return {
+        ...section,
+        coupon: {
+          ...coupon,
+          ctaLink: link(coupon.ctaLink, `${path}.coupon.ctaLink`),
+          description: mapRichTextLinks(coupon.description, `${path}.coupon.description`, link),
+        },
+      };
+    }
+    default:
+      return section;
+  }
+};
+
+/**
+ * Runs every image URL in the config through `asset` and every link, rich-text
+ * hrefs included, through `link`. The click-tracker template and open pixel are
+ * left alone; they belong to the tracker's own host, not the campaign's, and the
+ * pixel has to keep hitting the tracking server exactly as configured.
+ */
+const mapConfigUrls = (config: EmailConfig, asset: UrlMapper, link: UrlMapper): EmailConfig => ({
+  ...config,
+  company: {
+    ...config.company,
+    logoUrl: asset(config.company.logoUrl, 'company.logoUrl'),
+    logoDarkUrl: asset(config.company.logoDarkUrl, 'company.logoDarkUrl'),
+    websiteUrl: link(config.company.websiteUrl, 'company.websiteUrl'),
+  },
+  sections: config.sections.map((section, index) => mapSectionUrls(section, `sections[${index}]`, asset, link)),
+  footer: {
+    ...config.footer,
+    text: mapRichTextLinks(config.footer.text, 'footer.text', link),
+    unsubscribeUrl: link(config.footer.unsubscribeUrl, 'footer.unsubscribeUrl'),
+    preferencesUrl: link(config.footer.preferencesUrl, 'footer.preferencesUrl'),
+    viewInBrowserUrl: link(config.footer.viewInBrowserUrl, 'footer.viewInBrowserUrl'),
+    socialLinks: config.footer.socialLinks.map((social, index) => ({ ...social, url: link(social.url, `footer.socialLinks[${index}].url`) })),
+  },
+});
+
+/**
+ * The config as this profile publishes it: hosts swapped in images and links,
+ * then the cache-busting parameter added to images. Rendering the result goes
+ * through link tracking as usual, so utm parameters and redirects see the
+ * production URLs.
+ */
+export const applyExportProfile = (config: EmailConfig, profile: ExportProfile): EmailConfig =>
+  mapConfigUrls(
+    config,
+    (url) => addCacheBust(rewriteHost(url, profile.hostRewrites), profile.cacheBust),
+    (url) => rewriteHost(url, profile.hostRewrites),
+  );
+
+// --- Asset Host Check ---
+
+// The host a browser would actually load from: userinfo, ports, backslashes and a
+// trailing dot are resolved by the URL parser rather than read off the string
+const urlHostname = (url: string) => {
+  if (!HTTP_URL.test(url)) return null;
+  try {
+    return new URL(url, 'https://base.invalid').hostname.replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+};
+
+// "*.example.com" covers subdomains at a label boundary, not example.com itself
+const hostAllowed = (hostname: string, allowed: string[]) =>
+  allowed.some((entry) => {
+    const pattern = entry.trim().toLowerCase().replace(/\.$/, '');
+    return pattern.startsWith('*.') ? hostname.endsWith(`.${pattern.slice(2)}`) : hostname === pattern;
+  });
+
+const checkHost = (url: string, path: string, allowed: string[]): ValidationIssue[] => {
+  const host = urlHostname(url);
+  if (!host) return [{ path, message: `is not an absolute http(s) URL, so its host can't be checked: ${url}` }];
+  if (!hostAllowed(host, allowed)) return [{ path, message: `is on ${host}, which is not an allowed asset host (${allowed.join(', ')})` }];
+  return [];
+};
+
+/**
+ * Lists every image in the profiled config that isn't on one of the profile's
+ * allowed hosts, so an export can be refused before any HTML is produced.
+ * Uploaded (data:) images and URLs built from merge tags can't be vouched
+ * for, so they are reported too. No allowed hosts means no check. `relocated`
+ * names images an export copies elsewhere (the .zip package), which are skipped.
+ */
+export const checkAssetHosts = (
+  config: EmailConfig,
+  profile: ExportProfile,
+  relocated: (url: string) => boolean = () => false,
+): ValidationIssue[] => {
+  const allowed = profile.allowedAssetHosts.filter((host) => host.trim());
+  if (allowed.length === 0) return [];
+
+  const issues: ValidationIssue[] = [];
+  const check: UrlMapper = (url, path) => {
+    const trimmed = url.trim();
+    if (!trimmed || relocated(trimmed)) return url;
+    if (trimmed.startsWith('data:')) {
+      issues.push({ path, message: 'is an uploaded image; host it on an allowed host first (the .zip export writes it out as a file)' });
+    } else {
+      issues.push(...checkHost(trimmed, path, allowed));
+    }
+    return url;
+  };
+  mapConfigUrls(applyExportProfile(config, profile), check, (url) => url);
+  return issues;
+};
+
+/**
+ * The images a .zip package relocates are served from its asset base URL, so
+ * that has to be on one of the profile's allowed hosts too. An empty base URL
+ * leaves them relative, which no host check can vouch for.
+ */
+export const checkPackageBaseUrl = (baseUrl: string, profile: ExportProfile): ValidationIssue[] => {
+  const allowed = profile.allowedAssetHosts.filter((host) => host.trim());
+  if (allowed.length === 0) return [];
+  if (!baseUrl.trim()) return [{ path: 'assetBaseUrl', message: 'is empty, so packaged images load relative to index.html; set it to an allowed host' }];
+  return checkHost(baseUrl.trim(), 'assetBaseUrl', allowed);
+};
@@ -0,0 +1,138 @@
+import { EmailConfig } from '../types';
+import { sectionLabel } from './sections';
+
+// --- Types ---
+
+export type HistoryEntry = {
+  config: EmailConfig;
+  label: string;
+  at: number; // Time of the latest edit folded into this entry
+  key: string; // Path of the changed field, used to coalesce typing
+  coalescible: boolean;
+};
+
+// `index` points at the entry currently shown; entries after it can be redone
+export type ConfigHistory = {
+  entries: HistoryEntry[];
+  index: number;
+};
+
+const MAX_ENTRIES = 100;
+// Edits to the same text or number field within this window become one step
+const COALESCE_MS = 1000;
+
+// --- Describing Changes ---
+
+type Path = (string | number)[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Collects the paths of changed leaves, stopping at arrays whose length changed
+const diffPaths = (prev: unknown, next: unknown, path: Path, out: Path[]) => {
+  if (prev === next) return;
+  if (Array.isArray(prev) && Array.isArray(next) && prev.length === next.length) {
+    prev.forEach((item, i) => diffPaths(item, next[i], [...path, i], out));
+  } else if (isObject(prev) && isObject(next) && !Array.isArray(prev) && !Array.isArray(next)) {
+    new Set([...Object.keys(prev), ...Object.keys(next)]).forEach((key) => diffPaths(prev[key], next[key], [...path, key], out));
+  } else {
+    out.push(path);
+  }
+};
+
+const commonPrefix = (paths: Path[]) => {
+  const [first, ...rest] = paths;
+  let length = first.length;
+  rest.forEach((path) => {
+    let i = 0;
+    while (i < length && i < path.length && path[i] === first[i]) i++;
+    length = i;
+  });
+  return first.slice(0, length);
+};
+
+const humanize = (key: string) => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Reads a path like ['sections', 2, 'products', 0, 'name'] as "Products (section 3) › Product 1 › Name"
+const describePath = (config: EmailConfig, path: Path) => {
+  const parts: string[] = [];
+  path.forEach((segment, i) => {
+    if (typeof segment === 'number') return;
+    const position = path[i + 1];
+    if (typeof position !== 'number') {
+      parts.push(humanize(segment));
+    } else if (segment === 'sections') {
+      const section = config.sections[position];
+      parts.push(`${section ? sectionLabel(section.type) : 'Section'} (section ${position + 1})`);
+    } else {
+      parts.push(`${humanize(segment).replace(/s$/, '')} ${position + 1}`);
+    }
+  });
+  return parts.join(' › ') || 'Campaign';
+};
+
+const getAt = (config: unknown, path: Path) =>
+  path.reduce<unknown>((node, segment) => (isObject(node) ? (node as Record<string | number, unknown>)[segment] : undefined), config);
+
+export const describeChange = (prev: EmailConfig, next: EmailConfig) => {
+  const paths: Path[] = [];
+  diffPaths(prev, next, [], paths);
+  if (paths.length === 0) return null;
+
+  const path = commonPrefix(paths);
+  const key = path.join('.');
+  const where = describePath(next, path);
+  const before = getAt(prev, path);
+  const after = getAt(next, path);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const noun = `item${Math.abs(after.length - before.length) === 1 ? '' : 's'}`;
+    if (after.length > before.length) return { key, label: `Added ${after.length - before.length} ${noun} to ${where}`, coalescible: false };
+    if (after.length < before.length) return { key, label: `Removed ${before.length - after.length} ${noun} from ${where}`, coalescible: false };
+    return { key, label: `Reordered ${where}`, coalescible: false };
+  }
+  const coalescible = paths.length === 1 && (typeof after === 'string' || typeof after === 'number');
+  return { key, label: paths.length === 1 ? `Changed ${where}` : `Edited ${where}`, coalescible };
+};
+
+// --- Stack Operations ---
+
+export const createHistory = (config: EmailConfig, label = 'Opened campaign'): ConfigHistory => ({
+  entries: [{ config, label, at: Date.now(), key: '', coalescible: false }],
+  index: 0,
+});
+
+export const currentConfig = (history: ConfigHistory) => history.entries[history.index].config;
+
+export const canUndo = (history: ConfigHistory) => history.index > 0;
+export const canRedo = (history: ConfigHistory) => history.index < history.entries.length - 1;
+
+/**
+ * Records `config` as the next step, dropping any redo entries. Consecutive
+ * edits of the same text/number field are folded into the latest step so a
+ * typed word undoes in one go.
+ */
+export const recordChange = (history: ConfigHistory, config: EmailConfig, now = Date.now()): ConfigHistory => {
+  const current = history.entries[history.index];
+  const change = describeChange(current.config, config);
+  if (!change) return history;
+
+  const kept = history.entries.slice(0, history.index + 1);
+  const atTip = history.index > 0 && history.index === history.entries.length - 1;
+  if (atTip && change.coalescible && current.coalescible && current.key === change.key && now - current.at < COALESCE_MS) {
+    kept[kept.length - 1] = { ...current, config, at: now };
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const entries = [...kept, { config, at: now, ...change }].slice(-MAX_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const jumpTo = (history: ConfigHistory, index: number): ConfigHistory =>
+  index < 0 || index >= history.entries.length ? history : { ...history, index };
+
+export const undo = (history: ConfigHistory) => jumpTo(history, history.index - 1);
+export const redo = (history: ConfigHistory) => jumpTo(history, history.index + 1);
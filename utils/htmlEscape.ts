@@ -0,0 +1,124 @@
+// --- Escaping ---
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// For user text placed between tags
+export const escapeHtml = (value: string) => String(value ?? '').replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+
+// For user values placed inside a double-quoted attribute
+export const escapeAttr = (value: string) => escapeHtml(value).replace(/[\r\n\t]/g, ' ');
+
+// --- URLs ---
+
+const LINK_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+const IMAGE_SCHEMES = ['http:', 'https:', 'cid:'];
+const DATA_IMAGE = /^data:image\/(?:png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i;
+
+// Browsers ignore control characters and whitespace inside a scheme ("java\tscript:")
+const getScheme = (url: string) => {
+  const match = url.replace(/[\u0000-\u0020\u007f]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return match ? `${match[1].toLowerCase()}:` : null;
+};
+
+const isAllowedUrl = (url: string, schemes: string[]) => {
+  const scheme = getScheme(url);
+  // No scheme means relative, fragment or protocol-relative, which can't run script
+  return scheme === null || schemes.includes(scheme);
+};
+
+export const isSafeLinkUrl = (url: string) => isAllowedUrl(String(url ?? '').trim(), LINK_SCHEMES);
+
+export const isSafeImageUrl = (url: string) => {
+  const trimmed = String(url ?? '').trim();
+  return DATA_IMAGE.test(trimmed) || isAllowedUrl(trimmed, IMAGE_SCHEMES);
+};
+
+// Returns an attribute-safe href, or "#" when the scheme isn't allow-listed
+export const sanitizeUrl = (url: string) => {
+  const trimmed = String(url ?? '').trim();
+  if (!trimmed) return '#';
+  return isSafeLinkUrl(trimmed) ? escapeAttr(trimmed) : '#';
+};
+
+// Returns an attribute-safe src, or "" when it isn't a web, cid: or inline raster image
+export const sanitizeImageUrl = (url: string) => {
+  const trimmed = String(url ?? '').trim();
+  if (!trimmed) return '';
+  return isSafeImageUrl(trimmed) ? escapeAttr(trimmed) : '';
+};
+
+// --- CSS Values ---
+
+const SAFE_COLOR = /^(#[0-9a-f]{3,8}|[a-z]+|rgba?\(\s*[\d.%\s,]+\)|hsla?\(\s*[\d.%\s,deg]+\))$/i;
+
+// Theme colours are spliced into style attributes, so anything else falls back
+export const sanitizeColor = (value: string, fallback: string) => {
+  const trimmed = String(value ?? '').trim();
+  return SAFE_COLOR.test(trimmed) ? trimmed : fallback;
+};
+
+// --- Rich Text ---
+
+const RICH_TEXT_TAGS = ['b', 'strong', 'i', 'em', 'u', 's', 'br', 'a', 'span', 'small', 'sup', 'sub'];
+const VOID_TAGS = ['br'];
+
+// Escapes stray "&" but keeps entities the author typed on purpose
+const escapeRichTextSegment = (value: string) =>
+  value
+    .replace(/&(?![a-z][a-z0-9]*;|#\d+;|#x[0-9a-f]+;)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const readHref = (attributes: string) => {
+  const match = attributes.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i);
+  return match ? (match[1] ?? match[2] ?? match[3]).replace(/&amp;/g, '&') : '';
+};
+
+/**
+ * Sanitizes fields that explicitly opt in to inline formatting. Only the tags
+ * in RICH_TEXT_TAGS survive, all attributes except a sanitized `a[href]` are
+ * dropped, unclosed tags are closed and newlines become `<br>`.
+ */
+export const sanitizeRichText = (value: string) => {
+  const source = String(value ?? '').replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '');
+  const tagPattern = /<(\/?)([a-z][a-z0-9]*)\b([^<>]*)>/gi;
+  const open: string[] = [];
+  let html = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source))) {
+    html += escapeRichTextSegment(source.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    if (!RICH_TEXT_TAGS.includes(name)) continue;
+
+    if (VOID_TAGS.includes(name)) {
+      if (!closing) html += `<${name}>`;
+    } else if (closing) {
+      // Ignore closers that don't match an open tag
+      const depth = open.lastIndexOf(name);
+      if (depth === -1) continue;
+      while (open.length > depth) html += `</${open.pop()}>`;
+    } else if (name === 'a') {
+      html += `<a href="${sanitizeUrl(readHref(attributes))}" style="color: inherit;">`;
+      open.push(name);
+    } else {
+      html += `<${name}>`;
+      open.push(name);
+    }
+  }
+
+  html += escapeRichTextSegment(source.slice(lastIndex));
+  while (open.length) html += `</${open.pop()}>`;
+  return html.replace(/\r?\n/g, '<br>');
+};
@@ -0,0 +1,122 @@
+import { EmailConfig, Product, ProductTemplate } from '../types';
+import { getProductImagePixelWidth } from './emailGenerator';
+
+// --- Image Probing ---
+
+// Editor-only: loads an image the way the preview would and reads what it got.
+// Results are cached per URL for the session, so re-renders don't re-download;
+// failures aren't, so a fixed upload is picked up on the next edit.
+
+export type ImageProbe =
+  | { status: 'loading' }
+  | { status: 'broken' }
+  | { status: 'loaded'; width: number; height: number; bytes: number | null }; // bytes is null when the host hides it
+
+const probes = new Map<string, Promise<ImageProbe>>();
+
+// cid: images only exist inside a sent message, so there is nothing to load
+export const isProbeable = (url: string) => /^(https?:\/\/|data:image\/)/i.test(url.trim());
+
+const loadDimensions = (url: string) =>
+  new Promise<{ width: number; height: number } | null>((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+
+// Content-Length needs a CORS-enabled host; others leave the size unknown
+const fetchSize = async (url: string) => {
+  if (url.startsWith('data:')) return Math.round((url.length - url.indexOf(',') - 1) * 0.75);
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    const length = Number(response.headers.get('content-length'));
+    return response.ok && length > 0 ? length : null;
+  } catch {
+    return null;
+  }
+};
+
+export const probeImage = (url: string): Promise<ImageProbe> => {
+  const key = url.trim();
+  const cached = probes.get(key);
+  if (cached) return cached;
+  const probe = Promise.all([loadDimensions(key), fetchSize(key)]).then(([size, bytes]): ImageProbe => {
+    if (size && size.width > 0) return { status: 'loaded', ...size, bytes };
+    probes.delete(key);
+    return { status: 'broken' };
+  });
+  probes.set(key, probe);
+  return probe;
+};
+
+// --- Checks ---
+
+// How an image is shown: CSS pixel size in the email and, where the layout crops or boxes it, the aspect ratio
+export type ImageRequirement = {
+  width?: number;
+  height?: number;
+  aspect?: number; // width / height
+};
+
+export type ImageCheck = {
+  level: 'error' | 'warning';
+  message: string;
+};
+
+// High-density phones and laptops render email images at 2x
+export const RETINA_SCALE = 2;
+// Heavier images stall on mobile data
+export const MAX_IMAGE_BYTES = 500 * 1024;
+const ASPECT_TOLERANCE = 0.05;
+
+const formatAspect = (aspect: number) => (Math.abs(aspect - 1) < 0.01 ? '1:1' : `${aspect.toFixed(2)}:1`);
+
+export const formatBytes = (bytes: number) => (bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+export const checkImage = (probe: ImageProbe, requirement: ImageRequirement): ImageCheck[] => {
+  if (probe.status === 'broken') return [{ level: 'error', message: 'Could not be loaded; check the URL' }];
+  if (probe.status !== 'loaded') return [];
+
+  const checks: ImageCheck[] = [];
+  const { width, height, bytes } = probe;
+  const sizes: [number | undefined, number, string][] = [[requirement.width, width, 'wide'], [requirement.height, height, 'tall']];
+  sizes.forEach(([shown, actual, dimension]) => {
+    if (!shown) return;
+    if (actual < shown) {
+      checks.push({ level: 'warning', message: `Only ${actual}px ${dimension} but shown at ${shown}px, so it will look blurry` });
+    } else if (actual < shown * RETINA_SCALE) {
+      checks.push({ level: 'warning', message: `${actual}px ${dimension}; ${shown * RETINA_SCALE}px keeps it sharp on retina screens` });
+    }
+  });
+
+  if (requirement.aspect) {
+    const aspect = width / height;
+    if (Math.abs(aspect - requirement.aspect) / requirement.aspect > ASPECT_TOLERANCE) {
+      checks.push({
+        level: 'warning',
+        message: `Aspect ratio ${formatAspect(aspect)} doesn't match the ${formatAspect(requirement.aspect)} slot, so it gets cropped or leaves the row uneven`,
+      });
+    }
+  }
+
+  if (bytes !== null && bytes > MAX_IMAGE_BYTES) {
+    checks.push({ level: 'warning', message: `${formatBytes(bytes)} file; keep email images under ${formatBytes(MAX_IMAGE_BYTES)}` });
+  }
+  return checks;
+};
+
+// Grid cells and list thumbnails are square; featured, banner and image-only list images keep their own shape
+export const productImageRequirement = (config: EmailConfig, template: ProductTemplate, product: Product): ImageRequirement => {
+  const width = getProductImagePixelWidth(config.layout, template, product);
+  const square = (template === 'classic' && !product.spanFullRow) || (template === 'modern' && product.renderMode === 'html');
+  return square ? { width, aspect: 1 } : { width };
+};
+
+// Brand logos are squeezed into a 20x20 box whatever their shape
+export const BRAND_LOGO_REQUIREMENT: ImageRequirement = { height: 20, aspect: 1 };
+export const COMPANY_LOGO_REQUIREMENT: ImageRequirement = { height: 50 };
+// Suggested height for the editor's "Rec:" hint only; the hero is never cropped
+export const HERO_IMAGE_HEIGHT = 300;
+// Full content width at whatever height the image has
+export const heroImageRequirement = (config: EmailConfig): ImageRequirement => ({ width: config.layout.contentWidth });
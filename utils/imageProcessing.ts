@@ -0,0 +1,66 @@
+import { ImageRequirement, RETINA_SCALE } from './imageProbe';
+
+// --- Image Processing ---
+
+// Editor-only: crops and resizes uploaded files on a canvas so they can be
+// stored in the project as data: URLs, sized for the slot they fill.
+
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Photos compress far better as JPEG; PNG stays PNG to keep logo transparency
+const JPEG_QUALITY = 0.85;
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const loadImageFile = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not a readable image`));
+    };
+    img.src = url;
+  });
+
+// Largest crop of the given aspect ratio, centred; the whole image when the slot has no fixed shape
+export const centeredCrop = (width: number, height: number, aspect?: number): CropRect => {
+  if (!aspect) return { x: 0, y: 0, width, height };
+  const cropWidth = Math.min(width, height * aspect);
+  const cropHeight = cropWidth / aspect;
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+// Retina size for the slot, never upscaled past what the crop actually has
+export const outputSize = (crop: CropRect, requirement: ImageRequirement) => {
+  const scale = requirement.width
+    ? (requirement.width * RETINA_SCALE) / crop.width
+    : requirement.height
+      ? (requirement.height * RETINA_SCALE) / crop.height
+      : 1;
+  const factor = Math.min(1, scale);
+  return {
+    width: Math.max(1, Math.round(crop.width * factor)),
+    height: Math.max(1, Math.round(crop.height * factor)),
+  };
+};
+
+export const renderCrop = (img: HTMLImageElement, crop: CropRect, requirement: ImageRequirement, sourceType: string) => {
+  const { width, height } = outputSize(crop, requirement);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available in this browser');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return sourceType === 'image/png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
@@ -0,0 +1,43 @@
+// --- Inbox Preview ---
+
+// Approximate characters each client shows before cutting off with an ellipsis.
+// Desktop webmail runs the subject and preheader together on one row; mobile
+// clients give the subject its own line and wrap the preheader onto two.
+export type InboxLayout = 'desktop' | 'mobile';
+
+export const INBOX_LIMITS: Record<InboxLayout, { sender: number; subject: number; preheader: number; row?: number }> = {
+  desktop: { sender: 20, subject: 70, preheader: 100, row: 110 },
+  mobile: { sender: 28, subject: 38, preheader: 90 },
+};
+
+export type InboxRow = {
+  sender: string;
+  subject: string;
+  preheader: string;
+};
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+export const truncate = (value: string, max: number) => {
+  const text = collapse(value);
+  return text.length <= max ? text : `${text.slice(0, Math.max(max - 1, 0)).trimEnd()}…`;
+};
+
+/**
+ * Without a preheader, clients fill the preview from the first body text they
+ * find; the plain-text alternative is a close stand-in, minus its rule lines.
+ */
+export const bodyPreviewText = (plainText: string) =>
+  collapse(plainText.split('\n').filter((line) => !/^[-=*\s]*$/.test(line)).join(' '));
+
+export const inboxRow = (layout: InboxLayout, sender: string, subject: string, preheader: string): InboxRow => {
+  const limits = INBOX_LIMITS[layout];
+  const shownSubject = truncate(subject, limits.subject);
+  // On a single row the preheader only gets what the subject leaves over
+  const room = limits.row === undefined ? limits.preheader : Math.min(limits.preheader, limits.row - shownSubject.length - 3);
+  return {
+    sender: truncate(sender, limits.sender),
+    subject: shownSubject,
+    preheader: room > 0 ? truncate(preheader, room) : '',
+  };
+};
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { LinkTracking, MergeTagDialect } from '../types';
+import { trackLink } from './linkTracking';
+
+const tracking: LinkTracking = { ...INITIAL_CONFIG.tracking, enabled: true, source: 'newsletter', medium: 'email', redirectUrl: '' };
+const mergeTags = (dialect: MergeTagDialect) => ({ ...INITIAL_CONFIG.mergeTags, dialect });
+
+test('merge tags in utm values reach the ESP unencoded', () => {
+  assert.equal(
+    trackLink('https://example.com/shop', { ...tracking, campaign: '{{campaign}}' }, 'hero', mergeTags('handlebars')),
+    'https://example.com/shop?utm_source=newsletter&utm_medium=email&utm_campaign={{campaign}}&utm_content=hero',
+  );
+  assert.ok(trackLink('https://example.com/', { ...tracking, campaign: '*|CAMPAIGN|* sale' }, 'hero', mergeTags('mailchimp'))
+    .includes('utm_campaign=*|CAMPAIGN|*%20sale'));
+  // Without a dialect the braces are just text
+  assert.ok(trackLink('https://example.com/', { ...tracking, campaign: '{{campaign}}' }, 'hero', mergeTags('none'))
+    .includes('utm_campaign=%7B%7Bcampaign%7D%7D'));
+});
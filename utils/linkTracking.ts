@@ -0,0 +1,115 @@
+import { EmailConfig, LinkTracking, MergeTagSettings } from '../types';
+import { escapeAttr } from './htmlEscape';
+import { encodeKeepingMergeTags } from './mergeTags';
+import { getComplianceUrls } from './compliance';
+
+// --- Slots ---
+
+/**
+ * Names the place a link sits in, used as utm_content. Products are named by
+ * their position across all product sections (or id); other sections by type,
+ * numbered from the second one of a kind ("hero", "hero-2", ...).
+ */
+export const linkSlot = (config: EmailConfig, sectionIndex?: number, productIndex?: number) => {
+  const section = sectionIndex === undefined ? undefined : config.sections[sectionIndex];
+  if (!section) return 'email';
+
+  if (section.type === 'products' && productIndex !== undefined) {
+    const product = section.products[productIndex];
+    if (config.tracking.productContent === 'id' && product) return `product-${product.id}`;
+    const before = config.sections
+      .slice(0, sectionIndex)
+      .reduce((count, s) => count + (s.type === 'products' ? s.products.length : 0), 0);
+    return `product-${before + productIndex + 1}`;
+  }
+
+  const ofType = config.sections.slice(0, sectionIndex + 1).filter((s) => s.type === section.type).length;
+  return ofType > 1 ? `${section.type}-${ofType}` : section.type;
+};
+
+// --- Decoration ---
+
+const isTrackable = (url: string) => /^https?:\/\//i.test(url);
+
+/**
+ * Adds the campaign's utm_* parameters to an http(s) URL, keeping its existing
+ * query and fragment untouched. Parameters the link already carries win, and
+ * empty settings are left out. With a redirect template the result is then
+ * wrapped for the click tracker. Merge tags in the URL or the utm values
+ * ({{campaign}}) stay readable so the ESP can still fill them in.
+ */
+export const trackLink = (url: string, tracking: LinkTracking, slot: string, mergeTags?: MergeTagSettings) => {
+  const trimmed = String(url ?? '').trim();
+  if (!tracking.enabled || !isTrackable(trimmed)) return url;
+
+  const hashAt = trimmed.indexOf('#');
+  const base = hashAt === -1 ? trimmed : trimmed.slice(0, hashAt);
+  const hash = hashAt === -1 ? '' : trimmed.slice(hashAt);
+  const queryAt = base.indexOf('?');
+  const existing = new URLSearchParams(queryAt === -1 ? '' : base.slice(queryAt + 1));
+  const encode = (value: string) => (mergeTags ? encodeKeepingMergeTags(value, mergeTags) : encodeURIComponent(value));
+
+  const params: [string, string][] = [
+    ['utm_source', tracking.source],
+    ['utm_medium', tracking.medium],
+    ['utm_campaign', tracking.campaign],
+    ['utm_content', slot],
+  ];
+  const added = params
+    .filter(([key, value]) => value.trim() && !existing.has(key))
+    .map(([key, value]) => `${key}=${encode(value.trim())}`)
+    .join('&');
+
+  const separator = queryAt === -1 ? '?' : base.endsWith('?') || base.endsWith('&') ? '' : '&';
+  const decorated = added ? `${base}${separator}${added}${hash}` : trimmed;
+
+  const redirect = tracking.redirectUrl.trim();
+  if (!redirect.includes('{url}')) return decorated;
+  return redirect
+    .replace(/\{url\}/g, encode(decorated))
+    .replace(/\{slot\}/g, encodeURIComponent(slot));
+};
+
+const MARKER = /<!--\s*(section|product):([a-z0-9:-]+)\s*-->/gi;
+const HREF = /\bhref="([^"]*)"/gi;
+
+const decodeAttr = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Decorates every href in generated HTML, rich-text links included. The slot
+ * comes from the section/product marker preceding each link. Unsubscribe,
+ * preferences and view-in-browser links are left as entered.
+ */
+export const applyLinkTracking = (html: string, config: EmailConfig) => {
+  if (!config.tracking.enabled) return html;
+  const untracked = getComplianceUrls(config);
+
+  const markers = Array.from(html.matchAll(MARKER), (m) => ({ index: m.index ?? 0, kind: m[1].toLowerCase(), value: m[2] }));
+  const slotAt = (position: number) => {
+    let sectionIndex: number | undefined;
+    let productIndex: number | undefined;
+    for (const marker of markers) {
+      if (marker.index > position) break;
+      if (marker.kind === 'product') {
+        productIndex = Number(marker.value);
+      } else {
+        sectionIndex = Number(marker.value.split(':')[0]);
+        productIndex = undefined;
+      }
+    }
+    return linkSlot(config, sectionIndex, productIndex);
+  };
+
+  return html.replace(HREF, (match, value: string, offset: number) => {
+    const url = decodeAttr(value);
+    if (untracked.includes(url.trim())) return match;
+    const tracked = trackLink(url, config.tracking, slotAt(offset), config.mergeTags);
+    return tracked === url ? match : `href="${escapeAttr(tracked)}"`;
+  });
+};
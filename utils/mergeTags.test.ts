@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { EmailConfig, MergeTagSettings } from '../types';
+import { generateEmailHTML } from './emailGenerator';
+import { validateEmailConfig } from './configValidation';
+import { mergeTagPattern } from './mergeTags';
+
+const withLink = (mergeTags: Partial<MergeTagSettings>, link: string, text = ''): EmailConfig => ({
+  ...INITIAL_CONFIG,
+  mergeTags: { ...INITIAL_CONFIG.mergeTags, ...mergeTags },
+  company: { ...INITIAL_CONFIG.company, websiteUrl: link },
+  sections: [...INITIAL_CONFIG.sections, { id: 'text-test', type: 'text', text, align: 'left' }],
+});
+
+test('custom delimiters that could spell a scheme are refused', () => {
+  const settings = { ...INITIAL_CONFIG.mergeTags, dialect: 'custom' as const, customOpen: 'java', customClose: ':' };
+  assert.equal(mergeTagPattern(settings), null);
+  const result = validateEmailConfig({ ...INITIAL_CONFIG, mergeTags: settings });
+  assert.ok(result.issues.some((issue) => issue.path === 'mergeTags.customOpen'));
+
+  const html = generateEmailHTML(withLink({ dialect: 'custom', customOpen: 'java', customClose: ':' }, 'javascript:alert(document.cookie)'));
+  assert.ok(!/href="\s*javascript:/i.test(html));
+});
+
+test('a URL is rechecked with its merge tags restored and with them emptied', () => {
+  const html = generateEmailHTML(withLink(
+    { dialect: 'handlebars' },
+    '{{x}}javascript:alert(1)',
+    '<a href="{{x}}javascript:alert(2)">Shop</a> <a href="https://example.com/?id={{id}}">Mine</a>',
+  ));
+  assert.ok(!html.includes('javascript:'));
+  assert.ok(html.includes('href="https://example.com/?id={{id}}"'));
+});
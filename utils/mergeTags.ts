@@ -0,0 +1,137 @@
+import { EmailConfig, MergeTagDialect, MergeTagSettings } from '../types';
+import { escapeHtml } from './htmlEscape';
+
+// --- Dialects ---
+
+export const MERGE_TAG_DIALECTS: { id: MergeTagDialect; label: string; example: string }[] = [
+  { id: 'none', label: 'None', example: '' },
+  { id: 'mailchimp', label: 'Mailchimp', example: '*|FNAME|*' },
+  { id: 'handlebars', label: 'SendGrid / Handlebars', example: '{{first_name}}' },
+  { id: 'mailgun', label: 'Mailgun', example: '%recipient.first_name%' },
+  { id: 'custom', label: 'Custom delimiters', example: '' },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Symbols only: a delimiter with letters, ":" or "&" could spell a URL scheme or
+// an entity once its tags are put back after sanitizing
+export const isValidCustomDelimiter = (value: string) => value !== '' && !/[\p{L}\p{N}:&]/u.test(value);
+
+// A fresh global pattern per call, since matchAll/replace share lastIndex state
+export const mergeTagPattern = (settings: MergeTagSettings): RegExp | null => {
+  switch (settings.dialect) {
+    case 'mailchimp':
+      return /\*\|[^|*\n]+\|\*/g;
+    case 'handlebars':
+      return /\{\{\{?[^{}\n]+\}?\}\}/g;
+    case 'mailgun':
+      return /%[a-z_][\w.-]*%/gi;
+    case 'custom':
+      if (!isValidCustomDelimiter(settings.customOpen) || !isValidCustomDelimiter(settings.customClose)) return null;
+      return new RegExp(`${escapeRegExp(settings.customOpen)}[^\\n]+?${escapeRegExp(settings.customClose)}`, 'g');
+    default:
+      return null;
+  }
+};
+
+// Every distinct tag used in the campaign's content, in order of first use
+export const findMergeTags = (config: EmailConfig) => {
+  const pattern = mergeTagPattern(config.mergeTags);
+  if (!pattern) return [];
+  const { mergeTags, ...content } = config;
+  const found = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(pattern)) found.add(match[0]);
+    } else if (typeof value === 'object' && value !== null) {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(content);
+  return Array.from(found);
+};
+
+// --- Rendering ---
+
+// Private-use characters: no sanitizer treats them as markup, whitespace or a URL scheme
+const TOKEN = /\uE000(\d+)\uE001/g;
+
+const decodeAttr = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+/**
+ * Wraps an escaping function so merge tags pass through it verbatim. Tags are
+ * swapped for inert tokens, the value is escaped, then the tags are restored.
+ * Angle brackets inside a tag are always escaped, and quotes too wherever the
+ * tag lands inside a tag's attributes ("attribute", or "html" markup from the
+ * rich-text sanitizer).
+ *
+ * The sanitizer only ever saw tokens, so with `isSafeUrl` the URLs are checked
+ * again with their tags restored and with the tags dropped, the way an ESP
+ * sends an empty value ("{{x}}javascript:..."). An "attribute" value that fails
+ * renders as an empty one would; a failing link in "html" becomes "#".
+ */
+export const keepMergeTags = (
+  settings: MergeTagSettings,
+  render: (value: string) => string,
+  context: 'text' | 'attribute' | 'html',
+  isSafeUrl?: (url: string) => boolean,
+) => (value: string) => {
+  const pattern = mergeTagPattern(settings);
+  if (!pattern) return render(value);
+
+  const tags: string[] = [];
+  const tokenized = String(value ?? '').replace(pattern, (tag) => `\uE000${tags.push(tag) - 1}\uE001`);
+  if (tags.length === 0) return render(value);
+
+  const safe = (url: string) => !isSafeUrl || (isSafeUrl(url) && isSafeUrl(url.replace(pattern, '')));
+  if (context === 'attribute' && !safe(String(value ?? ''))) return render('');
+
+  const rendered = render(tokenized);
+  const restored = rendered.replace(TOKEN, (_, index: string, offset: number) => {
+    const tag = tags[Number(index)].replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const inAttribute = context === 'attribute'
+      || (context === 'html' && rendered.lastIndexOf('<', offset) > rendered.lastIndexOf('>', offset));
+    return inAttribute ? tag.replace(/"/g, '&quot;') : tag;
+  });
+  if (context !== 'html' || !isSafeUrl) return restored;
+  return restored.replace(/(<a href=")([^"]*)"/g, (match, prefix: string, href: string) => (safe(decodeAttr(href)) ? match : `${prefix}#"`));
+};
+
+// Applies `transform` (say, upper-casing) to everything except the merge tags
+export const mapOutsideMergeTags = (value: string, settings: MergeTagSettings, transform: (part: string) => string) => {
+  const pattern = mergeTagPattern(settings);
+  if (!pattern) return transform(value);
+  let result = '';
+  let lastIndex = 0;
+  for (const match of value.matchAll(pattern)) {
+    result += transform(value.slice(lastIndex, match.index)) + match[0];
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  return result + transform(value.slice(lastIndex));
+};
+
+// encodeURIComponent that leaves merge tags readable, so the ESP can still fill them in
+export const encodeKeepingMergeTags = (value: string, settings: MergeTagSettings) =>
+  mapOutsideMergeTags(value, settings, encodeURIComponent);
+
+// --- Preview ---
+
+/**
+ * Replaces tags with their sample values for previewing. HTML output may hold
+ * a tag in escaped form, so both spellings are replaced there.
+ */
+export const applySampleValues = (output: string, settings: MergeTagSettings, format: 'html' | 'text') => {
+  const pattern = mergeTagPattern(settings);
+  if (!pattern) return output;
+  const samples = new Map<string, string>();
+  Object.entries(settings.samples).forEach(([tag, value]) => {
+    if (!value) return;
+    samples.set(tag, format === 'html' ? escapeHtml(value) : value);
+    if (format === 'html') samples.set(escapeHtml(tag), escapeHtml(value));
+  });
+  if (samples.size === 0) return output;
+
+  const spellings = Array.from(samples.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return output.replace(new RegExp(spellings.join('|'), 'g'), (match) => samples.get(match) ?? match);
+};
@@ -0,0 +1,68 @@
+import { EmailConfig } from '../types';
+import { generateEmailHTML } from './emailGenerator';
+import { generatePlainText } from './plainText';
+import { escapeAttr } from './htmlEscape';
+import { IMAGE_EXTENSIONS, decodeAttr, decodeDataUrl, fetchImageBytes } from './emlExport';
+import { ZipEntry, createZip } from './zip';
+
+// --- Options ---
+
+export type PackageOptions = {
+  assetBaseUrl: string; // prefix for the images/ folder once uploaded, e.g. "https://cdn.example.com/spring/"; empty keeps paths relative
+  includeRemoteImages: boolean; // true = hosted images are downloaded into the package too
+};
+
+export const defaultPackageOptions = (): PackageOptions => ({ assetBaseUrl: '', includeRemoteImages: false });
+
+export const IMAGES_FOLDER = 'images';
+
+// "https://cdn.example.com/spring" -> "https://cdn.example.com/spring/"
+export const normalizeBaseUrl = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed && !trimmed.endsWith('/') ? `${trimmed}/` : trimmed;
+};
+
+// --- Packaging ---
+
+/**
+ * Renders the email and zips it with its images: index.html, plain-text.txt and
+ * an images/ folder. Uploaded (data:) images are always written out; hosted ones
+ * only when asked, and any that can't be fetched keep their remote URL and are
+ * reported back. Every packaged <img> points at assetBaseUrl + images/<file>;
+ * `packaged` lists the source URLs that were relocated that way.
+ */
+export const packageEmail = async (config: EmailConfig, options: PackageOptions, fetchImage: typeof fetch = fetch) => {
+  const rendered = generateEmailHTML(config);
+  const base = normalizeBaseUrl(options.assetBaseUrl);
+  const pattern = options.includeRemoteImages ? /<img\b[^>]*?\bsrc="((?:https?|data):[^"]+)"/gi : /<img\b[^>]*?\bsrc="(data:[^"]+)"/gi;
+  // The open-tracking pixel has to keep hitting the tracking server
+  const pixelUrl = config.tracking.openPixelUrl.trim();
+  const sources = Array.from(new Set(Array.from(rendered.matchAll(pattern), (m) => m[1])))
+    .filter((escapedSrc) => decodeAttr(escapedSrc) !== pixelUrl);
+
+  const images: ZipEntry[] = [];
+  const packaged: string[] = [];
+  const failures: string[] = [];
+  let html = rendered;
+
+  for (const escapedSrc of sources) {
+    const url = decodeAttr(escapedSrc);
+    try {
+      const { mimeType, bytes } = decodeDataUrl(url) ?? await fetchImageBytes(url, fetchImage);
+      const path = `${IMAGES_FOLDER}/image-${images.length + 1}.${IMAGE_EXTENSIONS[mimeType] ?? 'bin'}`;
+      images.push({ path, data: bytes });
+      packaged.push(url);
+      html = html.split(`src="${escapedSrc}"`).join(`src="${escapeAttr(base + path)}"`);
+    } catch (err) {
+      failures.push(`${url.startsWith('data:') ? 'Uploaded image' : url} (${(err as Error).message})`);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const zip = createZip([
+    { path: 'index.html', data: encoder.encode(html) },
+    { path: 'plain-text.txt', data: encoder.encode(generatePlainText(config)) },
+    ...images,
+  ]);
+  return { zip, imageCount: images.length, packaged, failures };
+};
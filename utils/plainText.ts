@@ -0,0 +1,162 @@
+import { EmailConfig, Product } from '../types';
+import { linkSlot, trackLink } from './linkTracking';
+import { mapOutsideMergeTags } from './mergeTags';
+import { socialLabel } from './compliance';
+
+// --- Plain Text Alternative ---
+
+// Conventional plain-text email width; URLs are never broken
+const LINE_WIDTH = 72;
+const RULE = '-'.repeat(LINE_WIDTH);
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&rarr;/g, '→')
+    .replace(/&amp;/g, '&');
+
+// Adds tracking to a link in its slot; identity when tracking is off
+type LinkDecorator = (url: string) => string;
+
+// Rich text fields may carry inline tags; links keep their target as "text (url)"
+const richTextToPlain = (value: string, link: LinkDecorator = (url) => url) =>
+  decodeEntities(
+    String(value ?? '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<a\b[^>]*\bhref\s*=\s*["']?([^"'\s>]+)["']?[^>]*>([\s\S]*?)<\/a>/gi, (_, url, label) => {
+        const text = label.replace(/<[^>]*>/g, '').trim();
+        return text && text !== url ? `${text} (${link(url)})` : link(url);
+      })
+      .replace(/<[^>]*>/g, ''),
+  ).trim();
+
+const wrapLine = (line: string) => {
+  const words = line.split(/ +/);
+  const wrapped: string[] = [];
+  let current = '';
+  words.forEach((word) => {
+    if (current && current.length + 1 + word.length > LINE_WIDTH) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) wrapped.push(current);
+  return wrapped.join('\n');
+};
+
+const wrap = (value: string) => value.split('\n').map(wrapLine).join('\n');
+
+const block = (...values: string[]) =>
+  values.map((v) => (v ?? '').trim()).filter(Boolean).map(wrap).join('\n');
+
+const productPrice = (product: Product) => {
+  if (product.pricingMode === 'discount') return product.discountText;
+  if (product.pricingMode === 'standard') return product.price;
+  return '';
+};
+
+const isRealLink = (url: string) => Boolean(url.trim()) && url.trim() !== '#';
+
+// Headings are upper-cased, which must leave merge tags alone
+type Uppercase = (value: string) => string;
+
+const renderProduct = (product: Product, track: LinkDecorator, upper: Uppercase) => {
+  const link = isRealLink(product.link) ? track(product.link.trim()) : '';
+  if (product.renderMode === 'image-only') {
+    return block(product.imageAlt.trim() || product.name, link && `Shop now: ${link}`);
+  }
+  return block(
+    upper(product.brandName),
+    product.name,
+    productPrice(product),
+    richTextToPlain(product.description, track),
+    link && `View details: ${link}`,
+  );
+};
+
+/**
+ * Builds the text/plain alternative from the config rather than scraping the
+ * HTML, so every section reads naturally in clients that don't render HTML.
+ */
+export const generatePlainText = (config: EmailConfig) => {
+  const { company, footer } = config;
+  const upper: Uppercase = (value) => mapOutsideMergeTags(value, config.mergeTags, (part) => part.toUpperCase());
+  const sections: string[] = [];
+  // Back-to-back rules (say, a divider after the hero) collapse into one
+  const rule = () => {
+    if (sections.length > 0 && sections[sections.length - 1] !== RULE) sections.push(RULE);
+  };
+
+  config.sections.forEach((section, index) => {
+    const track: LinkDecorator = (url) => trackLink(url.trim(), config.tracking, linkSlot(config, index), config.mergeTags);
+    switch (section.type) {
+      case 'header':
+        sections.push(block(company.name, isRealLink(company.websiteUrl) ? track(company.websiteUrl) : ''));
+        rule();
+        break;
+      case 'hero': {
+        if (section.hidden) break;
+        const { hero } = section;
+        sections.push(block(
+          upper(hero.title),
+          richTextToPlain(hero.subtitle, track),
+          isRealLink(hero.ctaLink) ? `${hero.ctaText || 'Learn more'}: ${track(hero.ctaLink)}` : '',
+        ));
+        rule();
+        break;
+      }
+      case 'products':
+        section.products
+          .map((product, productIndex) => renderProduct(
+            product,
+            (url) => trackLink(url, config.tracking, linkSlot(config, index, productIndex), config.mergeTags),
+            upper,
+          ))
+          .filter(Boolean)
+          .forEach((product) => sections.push(product));
+        break;
+      case 'text':
+        sections.push(richTextToPlain(section.text, track));
+        break;
+      case 'divider':
+        rule();
+        break;
+      case 'coupon': {
+        const { coupon } = section;
+        sections.push(block(
+          upper(coupon.title),
+          coupon.code && `Code: ${coupon.code}`,
+          richTextToPlain(coupon.description, track),
+          coupon.ctaText && isRealLink(coupon.ctaLink) ? `${coupon.ctaText}: ${track(coupon.ctaLink)}` : '',
+        ));
+        break;
+      }
+      case 'footer':
+        rule();
+        sections.push(block(
+          company.name,
+          footer.address,
+          richTextToPlain(footer.text, track),
+          isRealLink(company.websiteUrl) ? `Visit our website: ${track(company.websiteUrl)}` : '',
+        ));
+        // Compliance links are never tracked, matching the HTML footer
+        sections.push(block(
+          ...footer.socialLinks.filter((link) => link.url.trim()).map((link) => `${socialLabel(link.network)}: ${track(link.url)}`),
+        ));
+        sections.push(block(
+          footer.unsubscribeUrl && `Unsubscribe: ${footer.unsubscribeUrl.trim()}`,
+          footer.preferencesUrl && `Manage preferences: ${footer.preferencesUrl.trim()}`,
+          footer.viewInBrowserUrl && `View in browser: ${footer.viewInBrowserUrl.trim()}`,
+        ));
+        break;
+    }
+  });
+
+  return sections.filter(Boolean).join('\n\n') + '\n';
+};
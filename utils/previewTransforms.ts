@@ -0,0 +1,111 @@
+import { DARK_MODE_QUERY } from './emailGenerator';
+import { NOT_MSO, unsupportedRules } from './compatLint';
+
+// --- Preview Transforms ---
+
+// Editor-only rewrites of the generated HTML that approximate how a client will
+// display it. Nothing here ends up in exported or copied output.
+
+// What clients do to emails that don't ship a dark palette: invert everything but the photos
+const FORCED_INVERSION = `<style>
+  html { filter: invert(1) hue-rotate(180deg); background-color: #ffffff; }
+  img { filter: invert(1) hue-rotate(180deg); }
+</style>`;
+
+export const simulateDarkMode = (html: string) =>
+  html.includes(DARK_MODE_QUERY)
+    ? html.split(DARK_MODE_QUERY).join('@media all')
+    : html.replace(/<\/head>/i, `${FORCED_INVERSION}\n</head>`);
+
+// --- Devices ---
+
+export type PreviewDevice = 'mobile' | 'tablet' | 'desktop';
+
+// Viewport widths the preview frames render at; the email's own media queries respond to these
+export const PREVIEW_DEVICES: { id: PreviewDevice; label: string; width: number }[] = [
+  { id: 'mobile', label: 'Mobile', width: 375 },
+  { id: 'tablet', label: 'Tablet', width: 768 },
+  { id: 'desktop', label: 'Desktop', width: 1024 },
+];
+
+// --- Client Emulation ---
+
+export type PreviewClient = 'none' | 'gmail' | 'outlook';
+
+export const PREVIEW_CLIENTS: { id: PreviewClient; label: string; description: string }[] = [
+  { id: 'none', label: 'No emulation', description: 'Rendered by this browser exactly as sent.' },
+  { id: 'gmail', label: 'Gmail', description: 'Strips <style> blocks, as for non-Google accounts, and drops CSS Gmail ignores.' },
+  { id: 'outlook', label: 'Outlook (Windows)', description: 'Drops CSS the Word engine ignores. VML buttons show as their HTML fallback.' },
+];
+
+const TAG = /<([a-z][a-z0-9]*)\b([^>]*)>/gi;
+const STYLE_BLOCK = /<style\b[^>]*>[\s\S]*?<\/style>/gi;
+
+const attributeValue = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i'))?.[1] ?? '';
+
+type Declaration = { property: string; value?: RegExp };
+
+// Semicolons inside url(...) don't end a declaration
+const dropDeclarations = (attributes: string, declarations: Declaration[]) =>
+  attributes.replace(/\bstyle\s*=\s*"([^"]*)"/i, (_, style: string) => {
+    const kept = style.split(/;(?![^(]*\))/).filter((part) => {
+      const match = part.match(/^\s*([a-z-]+)\s*:\s*([\s\S]*)$/i);
+      if (!match) return part.trim() !== '';
+      return !declarations.some(({ property, value }) =>
+        new RegExp(`^${property}$`, 'i').test(match[1]) && (!value || value.test(match[2].trim())));
+    });
+    return `style="${kept.join(';')}"`;
+  });
+
+const styleValue = (attributes: string, property: string) =>
+  attributeValue(attributes, 'style').match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i'))?.[1]?.trim() ?? '';
+
+// What a blocked image leaves behind: an outlined box at its size, holding the alt
+// text in whatever text styling the image carries, over the cell's background
+const imagePlaceholder = (attributes: string) => {
+  const size = (name: string) => {
+    const value = attributeValue(attributes, name) || styleValue(attributes, name);
+    if (!value || value === 'auto') return '';
+    return `${name}: ${/^\d+$/.test(value) ? `${value}px` : value};`;
+  };
+  const dimensions = [size('width'), size('height')].filter(Boolean).map((d) => `${d} `).join('');
+  const text = [
+    `color: ${styleValue(attributes, 'color') || '#6b7280'};`,
+    `font-family: ${styleValue(attributes, 'font-family') || 'Arial, sans-serif'};`,
+    `font-size: ${styleValue(attributes, 'font-size') || '12px'};`,
+    `font-weight: ${styleValue(attributes, 'font-weight') || 'normal'};`,
+    `line-height: ${styleValue(attributes, 'line-height') || '1.4'};`,
+  ].join(' ');
+  return `<span style="display: inline-block; box-sizing: border-box; ${dimensions}max-width: 100%; padding: 8px; border: 1px dashed #9ca3af; ${text} text-align: center; overflow: hidden; vertical-align: top;">${attributeValue(attributes, 'alt')}</span>`;
+};
+
+const BACKGROUND_IMAGE: Declaration = { property: 'background(?:-image)?', value: /url\(/i };
+
+// Default for many corporate and desktop clients until the reader clicks "download images"
+export const blockImages = (html: string) =>
+  html.replace(TAG, (tag, name: string, attributes: string) => {
+    if (name.toLowerCase() === 'img') return imagePlaceholder(attributes);
+    return /url\(/i.test(attributes) ? `<${name}${dropDeclarations(attributes, [BACKGROUND_IMAGE])}>` : tag;
+  });
+
+/**
+ * Approximates a client by removing what it doesn't support, driven by the
+ * compatibility table. Images in formats it can't show are treated as blocked.
+ * Outlook never sees [if !mso] fallbacks, so those are left as they are.
+ */
+export const simulateClient = (html: string, client: PreviewClient) => {
+  if (client === 'none') return html;
+  const source = client === 'gmail' ? html.replace(STYLE_BLOCK, '') : html;
+  const hidden = client === 'outlook'
+    ? Array.from(source.matchAll(NOT_MSO), (m) => [m.index ?? 0, (m.index ?? 0) + m[0].length])
+    : [];
+
+  return source.replace(TAG, (tag, name: string, attributes: string, offset: number) => {
+    if (hidden.some(([start, end]) => offset >= start && offset < end)) return tag;
+    const rules = unsupportedRules(name, attributes, client);
+    if (rules.length === 0) return tag;
+    if (name.toLowerCase() === 'img' && rules.some((rule) => !rule.declaration)) return imagePlaceholder(attributes);
+    return `<${name}${dropDeclarations(attributes, rules.flatMap((rule) => (rule.declaration ? [rule.declaration] : [])))}>`;
+  });
+};
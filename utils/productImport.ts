@@ -0,0 +1,185 @@
+import { Product } from '../types';
+import { ValidationIssue, validateProduct } from './configValidation';
+
+// --- Delimited Text Parsing ---
+
+// Spreadsheet pastes arrive tab-separated; files are usually comma-separated
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.split(';').length > firstLine.split(',').length) return ';';
+  return ',';
+};
+
+// RFC 4180 style: quoted cells may contain delimiters, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines (including a trailing newline)
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+};
+
+// --- Column Mapping ---
+
+export type ImportableField = Exclude<keyof Product, 'id'>;
+
+export const IMPORTABLE_FIELDS: { field: ImportableField; label: string; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', aliases: ['title', 'product', 'product name'] },
+  { field: 'price', label: 'Price', aliases: ['cost', 'amount'] },
+  { field: 'discountText', label: 'Discount Text', aliases: ['discount', 'offer', 'promo'] },
+  { field: 'pricingMode', label: 'Pricing Mode', aliases: ['pricing', 'price mode'] },
+  { field: 'description', label: 'Description', aliases: ['desc', 'details', 'copy'] },
+  { field: 'imageUrl', label: 'Image URL', aliases: ['image', 'img', 'picture', 'photo'] },
+  { field: 'link', label: 'Link', aliases: ['url', 'product url', 'href'] },
+  { field: 'brandName', label: 'Brand Name', aliases: ['brand'] },
+  { field: 'brandLogoUrl', label: 'Brand Logo URL', aliases: ['brand logo', 'logo'] },
+  { field: 'renderMode', label: 'Render Mode', aliases: ['render', 'layout type', 'mode'] },
+  // Newer fields go last so header-less files keep their column order
+  { field: 'brandLogoDarkUrl', label: 'Brand Logo URL (Dark)', aliases: ['brand logo dark', 'dark logo', 'logo dark'] },
+  { field: 'spanFullRow', label: 'Span Full Row', aliases: ['featured', 'full row', 'full width'] },
+  { field: 'imageAlt', label: 'Image Alt Text', aliases: ['alt', 'alt text', 'image alt'] },
+];
+
+// One entry per column; null means the column is ignored
+export type ColumnMapping = (ImportableField | null)[];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportableField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const match = IMPORTABLE_FIELDS.find(({ field, label, aliases }) =>
+      !used.has(field) && [field, label, ...aliases].some((name) => normalizeHeader(name) === normalized));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+// Without a header row, assume the columns follow the field order above
+export const defaultColumnMapping = (columnCount: number): ColumnMapping =>
+  Array.from({ length: columnCount }, (_, i) => IMPORTABLE_FIELDS[i]?.field ?? null);
+
+// --- Row Conversion ---
+
+export type RowFailure = {
+  rowNumber: number; // 1-based, counting the header row but not blank lines
+  cells: string[];
+  issues: ValidationIssue[];
+};
+
+const PRICING_ALIASES: Record<string, Product['pricingMode']> = {
+  standard: 'standard', price: 'standard',
+  discount: 'discount', sale: 'discount',
+  hidden: 'hidden', hide: 'hidden', none: 'hidden',
+};
+
+const RENDER_ALIASES: Record<string, Product['renderMode']> = {
+  html: 'html', standard: 'html',
+  'image-only': 'image-only', 'image only': 'image-only', image: 'image-only',
+};
+
+const BOOLEAN_ALIASES: Record<string, boolean> = {
+  true: true, yes: true, y: true, '1': true, x: true,
+  false: false, no: false, n: false, '0': false,
+};
+
+// Blank cells fall back to defaults; unrecognised values are kept so validation reports them
+const normalizeEnum = <T extends string>(value: string, aliases: Record<string, T>, fallback: T) => {
+  const key = value.trim().toLowerCase();
+  if (!key) return fallback;
+  return aliases[key] ?? value.trim();
+};
+
+const normalizeBoolean = (value: string): boolean | string => {
+  const key = value.trim().toLowerCase();
+  if (!key) return false;
+  return BOOLEAN_ALIASES[key] ?? value.trim();
+};
+
+const rowToProduct = (cells: string[], mapping: ColumnMapping, id: string): Product => {
+  const values: Partial<Record<ImportableField, string>> = {};
+  mapping.forEach((field, column) => {
+    if (field) values[field] = (cells[column] ?? '').trim();
+  });
+
+  // Infer how to show pricing when the sheet has no explicit column for it
+  const inferredPricing: Product['pricingMode'] = values.price
+    ? 'standard'
+    : values.discountText ? 'discount' : 'hidden';
+
+  return {
+    id,
+    name: values.name ?? '',
+    price: values.price ?? '',
+    discountText: values.discountText ?? '',
+    pricingMode: normalizeEnum(values.pricingMode ?? '', PRICING_ALIASES, inferredPricing) as Product['pricingMode'],
+    description: values.description ?? '',
+    imageUrl: values.imageUrl ?? '',
+    imageAlt: values.imageAlt ?? '',
+    link: values.link ?? '',
+    brandName: values.brandName ?? '',
+    brandLogoUrl: values.brandLogoUrl ?? '',
+    brandLogoDarkUrl: values.brandLogoDarkUrl ?? '',
+    renderMode: normalizeEnum(values.renderMode ?? '', RENDER_ALIASES, 'html') as Product['renderMode'],
+    spanFullRow: normalizeBoolean(values.spanFullRow ?? '') as boolean,
+  };
+};
+
+export const convertRows = (rows: string[][], mapping: ColumnMapping, hasHeader: boolean) => {
+  const products: Product[] = [];
+  const failures: RowFailure[] = [];
+  const idPrefix = Date.now().toString(36);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  dataRows.forEach((cells, i) => {
+    const rowNumber = i + (hasHeader ? 2 : 1);
+    const product = rowToProduct(cells, mapping, `${idPrefix}-${i}`);
+    const issues = validateProduct(product, `row ${rowNumber}`);
+    if (product.renderMode === 'html' && !product.name) {
+      issues.push({ path: `row ${rowNumber}.name`, message: 'is required for standard products' });
+    }
+    if (product.renderMode === 'image-only' && !product.imageUrl) {
+      issues.push({ path: `row ${rowNumber}.imageUrl`, message: 'is required for image-only products' });
+    }
+    if (issues.length > 0) failures.push({ rowNumber, cells, issues });
+    else products.push(product);
+  });
+
+  return { products, failures };
+};
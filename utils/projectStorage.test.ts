@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { createProject, deleteProject, listProjects, listUnreadableProjects, migrateConfig, saveProject } from './projectStorage';
+import { validateEmailConfig } from './configValidation';
+import { generateEmailHTML } from './emailGenerator';
+
+// Node has no localStorage; a Map stands in for the browser's
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => void store.set(key, value),
+  removeItem: (key: string) => void store.delete(key),
+} as Storage;
+
+const PROJECTS_KEY = 'email-builder:projects';
+const broken = { id: 'broken', name: 'From the future', schemaVersion: 999, createdAt: 1, updatedAt: 1, config: {} };
+const invalid = { id: 'invalid', name: 'Bad subject', schemaVersion: 12, createdAt: 1, updatedAt: 1, config: { ...INITIAL_CONFIG, subject: 42 } };
+
+test('projects that fail to migrate or validate survive every write', () => {
+  store.clear();
+  store.set(PROJECTS_KEY, JSON.stringify([broken, invalid]));
+  assert.deepEqual(listProjects(), []);
+  assert.deepEqual(listUnreadableProjects().map((p) => p.id), ['broken', 'invalid']);
+  assert.match(listUnreadableProjects()[1].error, /subject/);
+
+  const created = createProject('Fresh', INITIAL_CONFIG);
+  saveProject(created.id, { name: 'Renamed' });
+  deleteProject('missing');
+  assert.deepEqual(listProjects().map((p) => p.name), ['Renamed']);
+  assert.deepEqual(listUnreadableProjects().map((p) => p.record), [broken, invalid]);
+
+  deleteProject('broken');
+  assert.deepEqual(listUnreadableProjects().map((p) => p.id), ['invalid']);
+});
+
+test('a library that is not a list is set aside before it is overwritten', () => {
+  store.clear();
+  store.set(PROJECTS_KEY, '{not json');
+  createProject('Fresh', INITIAL_CONFIG);
+  assert.equal(store.get('email-builder:projects-backup'), '{not json');
+  assert.equal(listProjects().length, 1);
+});
+
+test('a hero hidden in v4 keeps its content in a hidden section', () => {
+  const { sections, exportProfiles, ...current } = INITIAL_CONFIG;
+  const v4 = {
+    ...current,
+    template: 'classic',
+    hero: { show: false, imageUrl: '', imageAlt: '', title: 'Winter Sale', subtitle: '', ctaText: 'Shop', ctaLink: 'https://example.com' },
+    products: [],
+  };
+  const migrated = migrateConfig(v4, 4);
+  const hero = migrated.sections.find((section) => section.type === 'hero');
+  assert.deepEqual(hero && { hidden: hero.hidden, title: hero.hero.title }, { hidden: true, title: 'Winter Sale' });
+  assert.deepEqual(validateEmailConfig(migrated).issues, []);
+  assert.ok(!generateEmailHTML(migrated).includes('Winter Sale'));
+});
+
+test('an edit that does not validate yet is not stored, so the project still loads', () => {
+  store.clear();
+  const created = createProject('Spring', INITIAL_CONFIG);
+  const halfTyped = { ...INITIAL_CONFIG, theme: { ...INITIAL_CONFIG.theme, primaryColor: '#3b82f' } };
+  const { issues } = saveProject(created.id, { name: 'Spring Sale', config: halfTyped });
+  assert.ok(issues.some((issue) => issue.path === 'theme.primaryColor'));
+
+  assert.deepEqual(listUnreadableProjects(), []);
+  const reloaded = listProjects().find((p) => p.id === created.id);
+  assert.equal(reloaded?.name, 'Spring Sale');
+  assert.equal(reloaded?.config.theme.primaryColor, INITIAL_CONFIG.theme.primaryColor);
+});
@@ -0,0 +1,284 @@
+import { EmailConfig, SavedProject, UnreadableProject } from '../types';
+import { ValidationIssue, formatIssues, validateEmailConfig } from './configValidation';
+
+// --- Schema Versioning ---
+
+// Bump this whenever EmailConfig gains or reshapes a field, and append the
+// matching step to MIGRATIONS so older saved flyers keep loading.
+export const CURRENT_SCHEMA_VERSION = 12;
+
+type ConfigRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is ConfigRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): ConfigRecord => (isRecord(value) ? value : {});
+
+// Steps only reshape what they recognise; anything else is left for validation to report
+const mapRecords = (value: unknown, step: (item: ConfigRecord) => ConfigRecord) =>
+  Array.isArray(value) ? value.map((item) => (isRecord(item) ? step(item) : item)) : value;
+
+// MIGRATIONS[n] upgrades a config saved at version n to version n + 1.
+const MIGRATIONS: Array<(config: ConfigRecord) => ConfigRecord> = [
+  // v0 -> v1: early flyers had no layout block and products without pricing/render modes
+  (config) => ({
+    ...config,
+    layout: { contentWidth: 600, productImageSize: 'large', ...asRecord(config.layout) },
+    products: mapRecords(config.products ?? [], (p) => ({
+      discountText: '',
+      pricingMode: 'standard',
+      brandName: '',
+      brandLogoUrl: '',
+      renderMode: 'html',
+      ...p,
+    })),
+  }),
+  // v1 -> v2: output modes; existing campaigns keep rendering exactly as before
+  (config) => ({
+    ...config,
+    output: { outlookSafe: false, ...asRecord(config.output) },
+  }),
+  // v2 -> v3: optional dark palette and dark logo variants, off until configured
+  (config) => {
+    const theme = asRecord(config.theme);
+    return {
+      ...config,
+      theme: {
+        ...theme,
+        dark: {
+          enabled: false,
+          backgroundColor: '#111827',
+          surfaceColor: '#1f2937',
+          textColor: '#f9fafb',
+          mutedTextColor: '#9ca3af',
+          primaryColor: '#60a5fa',
+          borderColor: '#374151',
+          ...asRecord(theme.dark),
+        },
+      },
+      company: { logoDarkUrl: '', ...asRecord(config.company) },
+      products: mapRecords(config.products ?? [], (p) => ({ brandLogoDarkUrl: '', ...p })),
+    };
+  },
+  // v3 -> v4: configurable grid; the classic template used to be a fixed 2-up grid
+  (config) => ({
+    ...config,
+    layout: { columns: 2, gutter: 20, ...asRecord(config.layout) },
+    products: mapRecords(config.products ?? [], (p) => ({ spanFullRow: false, ...p })),
+  }),
+  // v4 -> v5: the fixed header/hero/products/footer body becomes an ordered section list.
+  // A hidden hero keeps its content in a section marked hidden.
+  ({ template, hero, products, ...config }) => {
+    const { show, ...heroContent } = asRecord(hero);
+    return {
+      ...config,
+      sections: [
+        { id: 'header', type: 'header' },
+        { id: 'hero', type: 'hero', hero: heroContent, hidden: show === false },
+        { id: 'products', type: 'products', template: template || 'classic', products: products ?? [] },
+        { id: 'footer', type: 'footer' },
+      ],
+    };
+  },
+  // v5 -> v6: link tracking, off until configured
+  (config) => ({
+    ...config,
+    tracking: {
+      enabled: false,
+      source: '',
+      medium: 'email',
+      campaign: '',
+      productContent: 'index',
+      redirectUrl: '',
+      ...asRecord(config.tracking),
+    },
+  }),
+  // v6 -> v7: open pixel and merge tags; text was always escaped before, so no dialect
+  (config) => ({
+    ...config,
+    tracking: { openPixelUrl: '', ...asRecord(config.tracking) },
+    mergeTags: { dialect: 'none', customOpen: '[[', customClose: ']]', samples: {}, ...asRecord(config.mergeTags) },
+  }),
+  // v7 -> v8: compliance footer links; left empty so the missing unsubscribe link gets flagged
+  (config) => ({
+    ...config,
+    footer: {
+      unsubscribeUrl: '',
+      unsubscribeOneClick: false,
+      preferencesUrl: '',
+      viewInBrowserUrl: '',
+      socialLinks: [],
+      ...asRecord(config.footer),
+    },
+  }),
+  // v8 -> v9: subject and preheader; an empty subject keeps using the lead hero title
+  (config) => ({ subject: '', preheader: '', ...config }),
+  // v9 -> v10: image alt text (empty keeps the name/title fallback) and document language
+  (config) => ({
+    ...config,
+    sections: mapRecords(config.sections ?? [], (section) => {
+      if (section.type === 'hero') return { ...section, hero: { imageAlt: '', ...asRecord(section.hero) } };
+      if (section.type === 'products') {
+        return { ...section, products: mapRecords(section.products ?? [], (p) => ({ imageAlt: '', ...p })) };
+      }
+      return section;
+    }),
+    output: { language: 'en', ...asRecord(config.output) },
+  }),
+  // v10 -> v11: export profiles; none until configured, so exports are unchanged
+  (config) => ({ exportProfiles: [], ...config }),
+  // v11 -> v12: hero sections can be hidden; only heroes hidden back in v4 start out that way
+  (config) => ({
+    ...config,
+    sections: mapRecords(config.sections ?? [], (section) => (section.type === 'hero' ? { hidden: false, ...section } : section)),
+  }),
+];
+
+export const migrateConfig = (config: unknown, fromVersion: number): EmailConfig => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved with a newer schema (v${fromVersion}); this editor supports up to v${CURRENT_SCHEMA_VERSION}.`);
+  }
+  let migrated = asRecord(config);
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated as unknown as EmailConfig;
+};
+
+// --- Local Storage ---
+
+const PROJECTS_KEY = 'email-builder:projects';
+const ACTIVE_PROJECT_KEY = 'email-builder:active-project';
+const BACKUP_KEY = 'email-builder:projects-backup';
+
+type Library = {
+  projects: SavedProject[];
+  unreadable: UnreadableProject[];
+};
+
+const toProject = (record: unknown): SavedProject => {
+  if (!isRecord(record)) throw new Error('Not a saved project.');
+  const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  const result = validateEmailConfig(migrateConfig(record.config, fromVersion));
+  if (!result.config) throw new Error(formatIssues(result.issues));
+  return { ...(record as SavedProject), config: result.config, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+const readAll = (): Library => {
+  const library: Library = { projects: [], unreadable: [] };
+  const raw = localStorage.getItem(PROJECTS_KEY);
+  if (!raw) return library;
+  let records: unknown;
+  try {
+    records = JSON.parse(raw);
+  } catch {
+    return library;
+  }
+  if (!Array.isArray(records)) return library;
+
+  records.forEach((record, index) => {
+    try {
+      library.projects.push(toProject(record));
+    } catch (err) {
+      const { id, name } = isRecord(record) ? record : {};
+      library.unreadable.push({
+        id: typeof id === 'string' && id ? id : `unreadable-${index}`,
+        name: typeof name === 'string' ? name : '',
+        error: (err as Error).message,
+        record,
+      });
+    }
+  });
+  return library;
+};
+
+const writeAll = ({ projects, unreadable }: Library) => {
+  // A library that isn't a JSON array at all is set aside rather than overwritten
+  const raw = localStorage.getItem(PROJECTS_KEY);
+  if (raw && !localStorage.getItem(BACKUP_KEY)) {
+    let isList = false;
+    try {
+      isList = Array.isArray(JSON.parse(raw));
+    } catch {
+      // kept below
+    }
+    if (!isList) localStorage.setItem(BACKUP_KEY, raw);
+  }
+  localStorage.setItem(PROJECTS_KEY, JSON.stringify([...projects, ...unreadable.map((entry) => entry.record)]));
+};
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Most recently edited first
+export const listProjects = (): SavedProject[] =>
+  readAll().projects.sort((a, b) => b.updatedAt - a.updatedAt);
+
+// Entries that failed to migrate or validate, for the library to flag as needing repair
+export const listUnreadableProjects = (): UnreadableProject[] => readAll().unreadable;
+
+export const getProject = (id: string): SavedProject | undefined =>
+  readAll().projects.find((p) => p.id === id);
+
+// Only configs that load again are stored; reading validates every project
+export const createProject = (name: string, config: EmailConfig): SavedProject => {
+  const result = validateEmailConfig(config);
+  if (!result.config) throw new Error(formatIssues(result.issues));
+  const now = Date.now();
+  const project: SavedProject = {
+    id: newId(),
+    name,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    config,
+  };
+  const library = readAll();
+  writeAll({ ...library, projects: [...library.projects, project] });
+  return project;
+};
+
+// `issues` says why the edited config wasn't stored; the project keeps its last valid one
+export type SaveResult = {
+  project: SavedProject;
+  issues: ValidationIssue[];
+};
+
+/**
+ * Stores a rename and/or an edited config. Mid-edit states (a half-typed hex
+ * color, a cleared language) don't validate, so they aren't written: the name
+ * is still saved and the config stays at the last version that will load again.
+ */
+export const saveProject = (id: string, changes: { name?: string; config?: EmailConfig }): SaveResult => {
+  const library = readAll();
+  const { projects } = library;
+  const index = projects.findIndex((p) => p.id === id);
+  if (index === -1) throw new Error('Project no longer exists.');
+  const result = changes.config ? validateEmailConfig(changes.config) : { config: null, issues: [] };
+  const updated: SavedProject = {
+    ...projects[index],
+    ...(changes.name !== undefined ? { name: changes.name } : {}),
+    ...(result.config ? { config: changes.config } : {}),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    updatedAt: Date.now(),
+  };
+  projects[index] = updated;
+  writeAll(library);
+  return { project: updated, issues: result.issues };
+};
+
+export const duplicateProject = (id: string): SavedProject => {
+  const source = getProject(id);
+  if (!source) throw new Error('Project no longer exists.');
+  return createProject(`${source.name} (Copy)`, structuredClone(source.config));
+};
+
+// Also removes unreadable entries, which are listed under the same id
+export const deleteProject = (id: string) => {
+  const { projects, unreadable } = readAll();
+  writeAll({ projects: projects.filter((p) => p.id !== id), unreadable: unreadable.filter((entry) => entry.id !== id) });
+  if (getActiveProjectId() === id) localStorage.removeItem(ACTIVE_PROJECT_KEY);
+};
+
+export const getActiveProjectId = () => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
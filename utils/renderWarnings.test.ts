@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_CONFIG } from '../constants';
+import { EmailConfig, HeroContent } from '../types';
+import { collectContentWarnings } from './renderWarnings';
+
+const hero = (title: string): HeroContent => ({ imageUrl: '', imageAlt: '', title, subtitle: '', ctaText: '', ctaLink: '' });
+
+test('the empty-title warning follows the hero that is shown, not a hidden one', () => {
+  const config: EmailConfig = {
+    ...INITIAL_CONFIG,
+    sections: [
+      { id: 'hidden', type: 'hero', hero: hero(''), hidden: true },
+      { id: 'shown', type: 'hero', hero: hero(''), hidden: false },
+    ],
+  };
+  const titleWarnings = collectContentWarnings(config).filter((warning) => warning.path.endsWith('.hero.title'));
+  assert.deepEqual(titleWarnings.map((warning) => warning.path), ['sections[1].hero.title']);
+});
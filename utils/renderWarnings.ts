@@ -0,0 +1,89 @@
+import { EmailConfig } from '../types';
+import { ValidationIssue } from './configValidation';
+import { isSafeImageUrl, isSafeLinkUrl } from './htmlEscape';
+import { hasUnsubscribe } from './compliance';
+import { getLeadHero } from './sections';
+
+// --- Content Warnings ---
+
+// Valid configs can still render a poor email; these are reported but don't block output
+export const collectContentWarnings = (config: EmailConfig): ValidationIssue[] => {
+  const warnings: ValidationIssue[] = [];
+  const warn = (path: string, message: string) => warnings.push({ path, message });
+
+  const checkLink = (path: string, url: string) => {
+    const trimmed = url.trim();
+    if (!trimmed || trimmed === '#') warn(path, 'is empty, so the link goes nowhere');
+    else if (!isSafeLinkUrl(trimmed)) warn(path, `uses a blocked URL scheme and was replaced with "#"`);
+  };
+
+  const checkImage = (path: string, url: string, required: boolean) => {
+    const trimmed = url.trim();
+    if (!trimmed) {
+      if (required) warn(path, 'is empty, so the image will be broken');
+    } else if (!isSafeImageUrl(trimmed)) {
+      warn(path, 'is not an http(s), cid: or inline image URL and was removed');
+    }
+  };
+
+  if (!config.subject.trim()) warn('subject', 'is empty, so the lead hero title is used as the subject');
+  if (!config.preheader.trim()) warn('preheader', 'is empty, so inboxes show the first lines of the body instead');
+
+  checkLink('company.websiteUrl', config.company.websiteUrl);
+  checkImage('company.logoUrl', config.company.logoUrl, false);
+  checkImage('company.logoDarkUrl', config.company.logoDarkUrl, false);
+
+  // The hero the generator takes the title from, which skips hidden ones
+  const leadHero = getLeadHero(config);
+  config.sections.forEach((section, sectionIndex) => {
+    const sectionPath = `sections[${sectionIndex}]`;
+    if (section.type === 'hero') {
+      checkImage(`${sectionPath}.hero.imageUrl`, section.hero.imageUrl, true);
+      checkLink(`${sectionPath}.hero.ctaLink`, section.hero.ctaLink);
+      if (section.hero === leadHero && !section.hero.title.trim()) {
+        warn(`${sectionPath}.hero.title`, `is empty; it is also used as the document title${config.subject.trim() ? '' : ' and subject'}`);
+      }
+    } else if (section.type === 'coupon') {
+      if (!section.coupon.code.trim()) warn(`${sectionPath}.coupon.code`, 'is empty');
+      if (section.coupon.ctaText.trim()) checkLink(`${sectionPath}.coupon.ctaLink`, section.coupon.ctaLink);
+    } else if (section.type === 'text') {
+      if (!section.text.trim()) warn(`${sectionPath}.text`, 'is empty, so the section renders as blank space');
+    } else if (section.type === 'products') {
+      if (section.products.length === 0) warn(`${sectionPath}.products`, 'is empty, so the section renders nothing');
+      section.products.forEach((product, index) => {
+        const path = `${sectionPath}.products[${index}]`;
+        checkLink(`${path}.link`, product.link);
+        checkImage(`${path}.imageUrl`, product.imageUrl, true);
+        checkImage(`${path}.brandLogoUrl`, product.brandLogoUrl, false);
+        checkImage(`${path}.brandLogoDarkUrl`, product.brandLogoDarkUrl, false);
+        if (product.renderMode === 'image-only' && !product.imageAlt.trim()) {
+          warn(`${path}.imageAlt`, 'is empty, so with images off readers only see the product name');
+        }
+        if (product.renderMode === 'html') {
+          if (!product.name.trim()) warn(`${path}.name`, 'is empty');
+          if (product.pricingMode === 'standard' && !product.price.trim()) warn(`${path}.price`, 'is empty but pricingMode is "standard"');
+          if (product.pricingMode === 'discount' && !product.discountText.trim()) warn(`${path}.discountText`, 'is empty but pricingMode is "discount"');
+        }
+      });
+    }
+  });
+
+  if (!config.sections.some((section) => section.type === 'products')) {
+    warn('sections', 'has no products section');
+  }
+
+  if (!config.sections.some((section) => section.type === 'footer')) {
+    warn('sections', 'has no footer section, so there is no unsubscribe link');
+  } else if (!config.footer.unsubscribeUrl.trim()) {
+    warn('footer.unsubscribeUrl', 'is empty; bulk email needs an unsubscribe link (CAN-SPAM, GDPR, Gmail/Yahoo sender rules)');
+  } else if (!hasUnsubscribe(config)) {
+    warn('footer.unsubscribeUrl', 'is not an http(s) or mailto: link or a merge tag, so readers have no way to unsubscribe');
+  }
+  (['unsubscribeUrl', 'preferencesUrl', 'viewInBrowserUrl'] as const).forEach((key) => {
+    const url = config.footer[key].trim();
+    if (url && !isSafeLinkUrl(url)) warn(`footer.${key}`, 'uses a blocked URL scheme and was replaced with "#"');
+  });
+  config.footer.socialLinks.forEach((link, index) => checkLink(`footer.socialLinks[${index}].url`, link.url));
+
+  return warnings;
+};
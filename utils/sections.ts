@@ -0,0 +1,78 @@
+import { EmailConfig, HeroContent, ProductSection, Section, SectionType } from '../types';
+
+// --- Section Catalogue ---
+
+export const SECTION_TYPES: { type: SectionType; label: string; description: string }[] = [
+  { type: 'header', label: 'Header', description: 'Logo or company name' },
+  { type: 'hero', label: 'Hero', description: 'Large image, headline and button' },
+  { type: 'products', label: 'Products', description: 'A group of products in its own template' },
+  { type: 'text', label: 'Text', description: 'A paragraph of rich text' },
+  { type: 'divider', label: 'Divider', description: 'A thin horizontal rule' },
+  { type: 'coupon', label: 'Coupon', description: 'Promo code with terms and a button' },
+  { type: 'footer', label: 'Footer', description: 'Company name, address and footer text' },
+];
+
+export const sectionLabel = (type: SectionType) => SECTION_TYPES.find((t) => t.type === type)?.label ?? type;
+
+// Header and footer draw from the shared company/footer settings, so one of each is enough
+export const SINGLETON_SECTIONS: SectionType[] = ['header', 'footer'];
+
+const newSectionId = (type: SectionType) => `${type}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createSection = (type: SectionType): Section => {
+  const id = newSectionId(type);
+  switch (type) {
+    case 'hero':
+      return {
+        id,
+        type,
+        hero: { imageUrl: '', imageAlt: '', title: 'New Headline', subtitle: '', ctaText: 'Shop Now', ctaLink: '#' },
+        hidden: false,
+      };
+    case 'products':
+      return { id, type, template: 'classic', products: [] };
+    case 'text':
+      return { id, type, text: 'Write something here.', align: 'left' };
+    case 'coupon':
+      return {
+        id,
+        type,
+        coupon: { title: 'Your exclusive code', code: 'SAVE20', description: 'Valid until the end of the month.', ctaText: '', ctaLink: '' },
+      };
+    case 'header':
+    case 'divider':
+    case 'footer':
+      return { id, type };
+  }
+};
+
+// --- Lookups ---
+
+export const getProductSections = (config: EmailConfig) =>
+  config.sections.filter((section): section is ProductSection => section.type === 'products');
+
+export const getAllProducts = (config: EmailConfig) => getProductSections(config).flatMap((section) => section.products);
+
+// The first hero the email actually shows
+export const getLeadHero = (config: EmailConfig): HeroContent | undefined => {
+  const section = config.sections.find((s) => s.type === 'hero' && !s.hidden);
+  return section?.type === 'hero' ? section.hero : undefined;
+};
+
+// The subject names the email: it becomes the document <title> and default .eml subject.
+// Campaigns without one fall back to the first hero title, then the company name.
+export const getEmailTitle = (config: EmailConfig) =>
+  config.subject.trim() || getLeadHero(config)?.title || config.company.name;
+
+// --- Editing ---
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Product ids must stay unique across every product section
+export const newProductId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;